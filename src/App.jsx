@@ -3,6 +3,12 @@ import { useGridStore } from "./hooks/useGridStore";
 import { useState, useEffect } from "react";
 import TutorialModal from "./components/TutorialModal";
 import HelpButton from "./components/HelpButton";
+import IdentityMenu from "./components/IdentityMenu";
+import PlayerList from "./components/PlayerList";
+import ThemePicker from "./components/ThemePicker";
+import ConnectionBanner from "./components/ConnectionBanner";
+import ActionErrorToast from "./components/ActionErrorToast";
+import ChatPanel from "./components/ChatPanel";
 import StatsDebug from "./components/StatsDebug";
 
 function App() {
@@ -30,12 +36,18 @@ function App() {
   return (
     <>
       <GridCanvas />
+      <ConnectionBanner />
+      <ActionErrorToast />
+      <ChatPanel />
       <TutorialModal 
         isOpen={showWelcomeModal} 
         onClose={handleCloseWelcomeModal}
         mode="welcome"
       />
       <HelpButton onClick={handleOpenHelpModal} />
+      <IdentityMenu />
+      <PlayerList />
+      <ThemePicker />
       <TutorialModal 
         isOpen={showHelpModal} 
         onClose={handleCloseHelpModal}
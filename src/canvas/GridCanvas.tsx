@@ -1,20 +1,29 @@
 import React, { useEffect, useRef, useState, useCallback } from "react";
-import { useChunkedGridStore, Cell, Chunk } from "../hooks/useChunkedGridStore";
+import { useChunkedGridStore, subscribeCellChanges, type CellChange } from "../hooks/useChunkedGridStore";
+import { isRevealedMine } from "../network/chunkCodec";
 import { usePlayerStats } from "../hooks/usePlayerStats";
-import { userTokenInfo, socket } from "../network/socket";
+import { useConnectionStore } from "../hooks/useConnectionStore";
+import { useGlobalStatsStore } from "../hooks/useGlobalStatsStore";
+import { useCursorStore, sendCursorPosition, getCursorOpacity } from "../hooks/useCursorStore";
+import { useNavigationStore } from "../hooks/useNavigationStore";
+import { usePlayersStore, sendViewportPosition } from "../hooks/usePlayersStore";
+import { useOverviewStore } from "../hooks/useOverviewStore";
+import { useDevicePixelRatio } from "../hooks/useDevicePixelRatio";
+import { useThemeStore } from "../hooks/useThemeStore";
+import { createCoordinateUrl } from "../navigation/coordinateLinks";
+import { STATS_OVERLAY_RECT, getCellBounds, getCursorRect, type FrameState } from "./gridRenderer";
+import { canRenderInWorker, createRendererBackend } from "./rendererBackend";
+import { createRenderScheduler, type DirtyRect, type RenderScheduler } from "./renderScheduler";
+import Minimap from "../components/Minimap";
 import { 
   CHUNK_SIZE, 
   CELL_SIZE, 
-  ZOOM_LIMITS, 
   DEFAULT_ZOOM, 
   ZOOM_INTENSITY, 
-  MIN_VISIBLE_CHUNKS,
-  RULER_INTERVAL,
-  STATS_POLL_INTERVAL,
-  CHUNK_REFRESH_DELAY,
   COMPLETION_RESET_THRESHOLD,
-  DEFAULT_GRID_CENTER,
-  getCellRenderStep,
+  OVERVIEW_ZOOM_THRESHOLD,
+  RENDER_LEVELS,
+  getRenderLevel,
   getBufferZoneSize,
   expandChunkBounds,
   clampZoom,
@@ -25,31 +34,88 @@ import {
 import { 
   COLORS, 
   Z_INDEX, 
-  FONTS, 
   SPACING, 
-  DIMENSIONS,
   CURSORS,
-  getNumberColor,
-  getResponsiveFontSize
+  ANIMATION,
+  MINIMAP,
+  REMOTE_CURSOR,
+  isEditableTarget
 } from "../constants/ui";
 import { 
   getApiBaseUrl, 
   API_ENDPOINTS, 
-  ERROR_MESSAGES 
+  ERROR_MESSAGES,
+  SOCKET_CONFIG,
+  parseChunkKey
 } from "../constants/socket";
 
+/**
+ * Ease-in-out cubic curve for viewport animations
+ * @param t - Progress from 0 to 1
+ * @returns Eased progress from 0 to 1
+ */
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * Queue a redraw of a screen rectangle, if any of it is on the canvas
+ * @param scheduler - Render scheduler
+ * @param frame - Current view
+ * @param rect - Screen rectangle
+ */
+function invalidateScreenRect(scheduler: RenderScheduler, frame: FrameState, rect: DirtyRect): void {
+  const { canvasSize } = frame;
+  // Pad to whole pixels so anti-aliased edges are redrawn too, and keep to the canvas
+  const left = Math.max(0, Math.floor(rect.x) - 1);
+  const top = Math.max(0, Math.floor(rect.y) - 1);
+  const right = Math.min(canvasSize.width, Math.ceil(rect.x + rect.width) + 1);
+  const bottom = Math.min(canvasSize.height, Math.ceil(rect.y + rect.height) + 1);
+  // Off-screen rectangles come out empty and are ignored by the scheduler
+  scheduler.invalidateRegion({ x: left, y: top, width: right - left, height: bottom - top });
+}
+
+/**
+ * Queue a redraw of a square of cells, if any of it is on screen
+ * @param scheduler - Render scheduler
+ * @param frame - Current view
+ * @param x - Left cell
+ * @param y - Top cell
+ * @param size - Side of the square in cells
+ */
+function invalidateCells(scheduler: RenderScheduler, frame: FrameState, x: number, y: number, size: number): void {
+  const { offset, zoom } = frame;
+  const scale = CELL_SIZE * zoom;
+  invalidateScreenRect(scheduler, frame, { x: x * scale + offset.x, y: y * scale + offset.y, width: size * scale, height: size * scale });
+}
+
 export function GridCanvas() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // A canvas handed to the worker cannot be taken back, so if the worker crashes
+  // a new canvas element is mounted and drawn on the main thread
+  const [isWorkerCanvas, setIsWorkerCanvas] = useState(() => canRenderInWorker());
   const loadedChunks = useChunkedGridStore((state) => state.loadedChunks);
   const requestChunk = useChunkedGridStore((state) => state.requestChunk);
   const revealCell = useChunkedGridStore((state) => state.revealCell);
   const flagCell = useChunkedGridStore((state) => state.flagCell);
   const chordClick = useChunkedGridStore((state) => state.chordClick);
+  const retainVisibleChunks = useChunkedGridStore((state) => state.retainVisibleChunks);
+  const syncSubscriptions = useChunkedGridStore((state) => state.syncSubscriptions);
   const fetchGridSize = useChunkedGridStore((state) => state.fetchGridSize);  
   const gridSize = useChunkedGridStore((state) => state.gridSize);
+  const chunkBudget = useChunkedGridStore((state) => state.chunkBudget);
+  const subscribedChunkCount = useChunkedGridStore((state) => state.subscribedChunks.size);
   
   // Player stats
-  const { incrementCellsCleared, incrementFlagsPlaced, incrementBombsExploded, startSession, endSession } = usePlayerStats();
+  const { 
+    incrementCellsCleared, 
+    incrementFlagsPlaced, 
+    incrementBombsExploded, 
+    startSession, 
+    endSession 
+  } = usePlayerStats();
+  const playerStats = usePlayerStats((state) => state.stats);
+  const playerFlagAccuracy = usePlayerStats((state) => state.getAccuracy());
 
   // Viewport state
   const [offset, setOffset] = useState({ x: 0, y: 0 }); // Start at top-left
@@ -57,20 +123,11 @@ export function GridCanvas() {
   const [lastMouse, setLastMouse] = useState<{ x: number; y: number } | null>(null);
   const [zoom, setZoom] = useState(DEFAULT_ZOOM); // Start at normal zoom
   const [isSpaceDown, setIsSpaceDown] = useState(false);
-  const [canvasSize, setCanvasSize] = useState({ width: window.innerWidth, height: window.innerHeight });
-
-  // Backend stats state
-  const [backendStats, setBackendStats] = useState({
-    chunkCount: 0,
-    revealed: 0,
-    revealedPercent: 0,
-    flagged: 0,
-    correctFlags: 0,
-    totalMines: 0,
-    activeUsers: 0,
-    uniqueUsersEver: 0,
-    bombsExploded: 0,
-  });
+  const [canvasSize, setCanvasSize] = useState({ width: window.innerWidth, height: window.innerHeight }); // CSS pixels
+  const pixelRatio = useDevicePixelRatio(); // The canvas backing store is scaled up by this
+
+  // Global stats, pushed over the socket (HTTP polling is the store's fallback)
+  const backendStats = useGlobalStatsStore((state) => state.stats);
 
   // Hovered cell state
   const [hoverCell, setHoverCell] = useState<{ x: number; y: number } | null>(null);
@@ -85,12 +142,28 @@ export function GridCanvas() {
   const [showCompletion, setShowCompletion] = useState(false);
   const [completionMinimized, setCompletionMinimized] = useState(false);
 
+  // Coordinate link navigation (chat links, ?x=&y=&zoom= URLs)
+  const navigationTarget = useNavigationStore((state) => state.target);
+  const clearNavigationTarget = useNavigationStore((state) => state.clearTarget);
+  const viewRef = useRef({ offset, zoom });
+  const [copiedLink, setCopiedLink] = useState<string | null>(null);
+
+  // Follow mode: our view tracks another player's and manual panning/zooming is locked
+  const followingId = usePlayersStore((state) => state.followingId);
+  const followedName = usePlayersStore((state) => state.followingId ? state.players[state.followingId]?.username : null);
+  const follow = usePlayersStore((state) => state.follow);
+
   // Socket connection state
-  const [isSocketConnected, setIsSocketConnected] = useState(false);
+  const isSocketConnected = useConnectionStore((state) => state.status === 'connected');
+
+  // Board overview, shown in place of unloaded chunks when zoomed out
+  const requestOverview = useOverviewStore((state) => state.requestOverview);
+  const isOverviewZoom = zoom < OVERVIEW_ZOOM_THRESHOLD;
+  const renderLevel = getRenderLevel(zoom);
 
   // Determine the appropriate cursor based on current state
   const getCursor = useCallback(() => {
-    if (isSpaceDown) {
+    if (isSpaceDown && !followingId) {
       if (isPanning) {
         return CURSORS.GRABBING;
       } else {
@@ -99,7 +172,7 @@ export function GridCanvas() {
     } else {
       return CURSORS.DEFAULT;
     }
-  }, [isSpaceDown, isPanning]);
+  }, [isSpaceDown, isPanning, followingId]);
 
   // Consolidated completion check function
   const checkCompletion = useCallback(() => {
@@ -111,7 +184,8 @@ export function GridCanvas() {
 
   // Consolidated chunk calculation function
   const calculateVisibleChunks = useCallback(() => {
-    if (!gridSize) return [];
+    // The heatmap level draws from the board overview, so nothing is loaded or subscribed
+    if (!gridSize || renderLevel === RENDER_LEVELS.HEATMAP) return [];
     
     const { left, top, right, bottom } = getVisibleBounds();
     const chunkLeft = Math.floor(left / CHUNK_SIZE);
@@ -140,13 +214,15 @@ export function GridCanvas() {
       }
     }
     return chunks;
-  }, [gridSize, zoom]);
+  }, [gridSize, zoom, renderLevel]);
 
   // Consolidated mouse coordinate calculation
   const getMouseGridCoordinates = useCallback((e: MouseEvent) => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
     
+    // The view is kept in CSS pixels like mouse events; only the backing store is scaled by pixelRatio,
+    // so canvas.width must not be used here
     const rect = canvas.getBoundingClientRect();
     const cx = (e.clientX - rect.left - offset.x) / zoom;
     const cy = (e.clientY - rect.top - offset.y) / zoom;
@@ -169,34 +245,6 @@ export function GridCanvas() {
     initializeGrid();
   }, [fetchGridSize]);
 
-  // Socket connection management
-  useEffect(() => {
-    const handleConnect = () => {
-      setIsSocketConnected(true);
-    };
-
-    const handleDisconnect = () => {
-      setIsSocketConnected(false);
-    };
-
-    const handleConnectError = (error: any) => {
-      setIsSocketConnected(false);
-    };
-
-    socket.on('connect', handleConnect);
-    socket.on('disconnect', handleDisconnect);
-    socket.on('connect_error', handleConnectError);
-
-    // Set initial connection state
-    setIsSocketConnected(socket.connected);
-
-    return () => {
-      socket.off('connect', handleConnect);
-      socket.off('disconnect', handleDisconnect);
-      socket.off('connect_error', handleConnectError);
-    };
-  }, []);
-
   // Single completion check effect
   useEffect(() => {
     if (checkCompletion()) {
@@ -228,63 +276,9 @@ export function GridCanvas() {
     }
   }, []);
 
-  // Poll backend stats with error handling and connection awareness
-  useEffect(() => {
-    let mounted = true;
-    let retryCount = 0;
-    const maxRetries = 3;
-
-    async function fetchStats() {
-      if (!isSocketConnected && retryCount >= maxRetries) {
-        return;
-      }
-
-      try {
-        const [chunkRes, revealedRes, flaggedRes, usersRes] = await Promise.all([
-          fetch(`${getApiBaseUrl()}${API_ENDPOINTS.CHUNK_COUNT}`).then(r => r.json()),
-          fetch(`${getApiBaseUrl()}${API_ENDPOINTS.REVEALED_STATS}`).then(r => r.json()),
-          fetch(`${getApiBaseUrl()}${API_ENDPOINTS.FLAGGED_STATS}`).then(r => r.json()),
-          fetch(`${getApiBaseUrl()}${API_ENDPOINTS.ACTIVE_USERS}`).then(r => r.json()),
-        ]);
-
-        if (mounted) {
-          const newStats = {
-            chunkCount: chunkRes.count,
-            revealed: revealedRes.revealed,
-            revealedPercent: revealedRes.percent,
-            flagged: flaggedRes.flagged,
-            correctFlags: flaggedRes.correctFlags,
-            totalMines: flaggedRes.totalMines,
-            activeUsers: usersRes.count,
-            uniqueUsersEver: usersRes.uniqueUsersEver,
-            bombsExploded: revealedRes.bombsExploded ?? 0,
-          };
-          setBackendStats(newStats);
-          retryCount = 0; // Reset retry count on success
-        }
-      } catch (error) {
-        retryCount++;
-      }
-    }
-
-    fetchStats();
-    const interval = setInterval(fetchStats, STATS_POLL_INTERVAL);
-    
-    return () => { 
-      mounted = false; 
-      clearInterval(interval); 
-    };
-  }, [isSocketConnected]);
-
   // Calculate visible grid bounds
   function getVisibleBounds() {
-    if (!gridSize) return { left: 0, top: 0, right: 0, bottom: 0 };
-    
-    const left = Math.max(0, Math.floor((-offset.x) / (CELL_SIZE * zoom)));
-    const top = Math.max(0, Math.floor((-offset.y) / (CELL_SIZE * zoom)));
-    const right = Math.min(gridSize.width, Math.ceil((canvasSize.width - offset.x) / (CELL_SIZE * zoom)));
-    const bottom = Math.min(gridSize.height, Math.ceil((canvasSize.height - offset.y) / (CELL_SIZE * zoom)));
-    return { left, top, right, bottom };
+    return getCellBounds(offset, zoom, { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height }, gridSize);
   }
 
   // Request visible chunks with logging
@@ -294,28 +288,19 @@ export function GridCanvas() {
     }
     
     const visibleChunks = calculateVisibleChunks();
-    const bufferSize = getBufferZoneSize(zoom);
     
+    syncSubscriptions(visibleChunks);
     for (const { cx, cy } of visibleChunks) {
       requestChunk(cx, cy);
     }
-  }, [gridSize, calculateVisibleChunks, zoom, requestChunk]);
+    retainVisibleChunks(visibleChunks);
+  }, [gridSize, calculateVisibleChunks, requestChunk, syncSubscriptions, retainVisibleChunks]);
 
   // Request visible chunks on pan/zoom
   useEffect(() => {
     requestVisibleChunks();
   }, [offset, zoom, canvasSize, requestVisibleChunks]);
 
-  // Wrap revealCell to re-request visible chunks after revealing (fix for chunk sync issue)
-  const revealAndRefresh = useCallback((chunkX: number, chunkY: number, localX: number, localY: number) => {
-    revealCell(chunkX, chunkY, localX, localY);
-    
-    // Wait a tick for backend to process, then re-request visible chunks
-    setTimeout(() => {
-      requestVisibleChunks();
-    }, 50);
-  }, [revealCell, requestVisibleChunks]);
-
   // Handle window resize
   useEffect(() => {
     const handleResize = () => {
@@ -325,6 +310,123 @@ export function GridCanvas() {
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
+  // Track the latest view for animations that must not restart on every frame
+  useEffect(() => {
+    viewRef.current = { offset, zoom };
+  }, [offset, zoom]);
+
+  // Centre the viewport on a navigation target, animating between views
+  useEffect(() => {
+    if (!navigationTarget) return;
+    const target = navigationTarget;
+    const { offset: startOffset, zoom: startZoom } = viewRef.current;
+    const endZoom = clampZoom(target.zoom ?? startZoom, canvasSize, gridSize);
+    const halfWidth = canvasSize.width / 2;
+    const halfHeight = canvasSize.height / 2;
+    
+    // Interpolate the centred world point (in cells) rather than the offset,
+    // so the view glides straight to the target while zooming
+    const startX = (halfWidth - startOffset.x) / (CELL_SIZE * startZoom);
+    const startY = (halfHeight - startOffset.y) / (CELL_SIZE * startZoom);
+    // Links may point past the edge of the grid
+    const targetX = gridSize ? Math.max(0, Math.min(target.x, gridSize.width - 1)) : target.x;
+    const targetY = gridSize ? Math.max(0, Math.min(target.y, gridSize.height - 1)) : target.y;
+    const endX = targetX + 0.5;
+    const endY = targetY + 0.5;
+    
+    const applyView = (centerX: number, centerY: number, viewZoom: number) => {
+      setZoom(viewZoom);
+      setOffset({
+        x: halfWidth - centerX * CELL_SIZE * viewZoom,
+        y: halfHeight - centerY * CELL_SIZE * viewZoom,
+      });
+    };
+    
+    if (!target.animate) {
+      applyView(endX, endY, endZoom);
+      clearNavigationTarget(target.id);
+      return;
+    }
+    
+    let frame: number | null = null;
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startTime) / ANIMATION.DURATION.SLOW);
+      const eased = easeInOutCubic(t);
+      applyView(
+        startX + (endX - startX) * eased,
+        startY + (endY - startY) * eased,
+        startZoom + (endZoom - startZoom) * eased
+      );
+      if (t < 1) {
+        frame = requestAnimationFrame(step);
+      } else {
+        frame = null;
+        clearNavigationTarget(target.id);
+      }
+    };
+    frame = requestAnimationFrame(step);
+    
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [navigationTarget, canvasSize, gridSize, clearNavigationTarget]);
+
+  // Copy a link to the hovered cell with "L"
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "KeyL" || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target) || !hoverCell) return;
+      const url = createCoordinateUrl(hoverCell.x, hoverCell.y, zoom);
+      navigator.clipboard.writeText(url).then(
+        () => setCopiedLink(`${hoverCell.x},${hoverCell.y}`),
+        () => setCopiedLink(null)
+      );
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [hoverCell, zoom]);
+
+  // Share where we are looking so others can see and follow us
+  useEffect(() => {
+    const centerX = (canvasSize.width / 2 - offset.x) / (CELL_SIZE * zoom);
+    const centerY = (canvasSize.height / 2 - offset.y) / (CELL_SIZE * zoom);
+    sendViewportPosition(centerX, centerY, zoom);
+  }, [offset, zoom, canvasSize]);
+
+  // Escape stops following another player
+  useEffect(() => {
+    if (!followingId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !isEditableTarget(e.target)) follow(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [followingId, follow]);
+
+  // Keep the board overview fresh while zoomed out far enough to show it
+  useEffect(() => {
+    if (!isOverviewZoom || !isSocketConnected) return;
+    requestOverview();
+    const interval = setInterval(requestOverview, SOCKET_CONFIG.OVERVIEW_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isOverviewZoom, isSocketConnected, requestOverview]);
+
+  // Centre the view on a world point picked on the minimap
+  const centerOn = useCallback((x: number, y: number) => {
+    follow(null);
+    setOffset({
+      x: canvasSize.width / 2 - x * CELL_SIZE * zoom,
+      y: canvasSize.height / 2 - y * CELL_SIZE * zoom,
+    });
+  }, [canvasSize, zoom, follow]);
+
+  // Hide the "link copied" notice after a moment
+  useEffect(() => {
+    if (!copiedLink) return;
+    const timer = setTimeout(() => setCopiedLink(null), ANIMATION.DURATION.VERY_SLOW * 2);
+    return () => clearTimeout(timer);
+  }, [copiedLink]);
+
   // Start player session on mount
   useEffect(() => {
     startSession();
@@ -333,34 +435,32 @@ export function GridCanvas() {
     };
   }, [startSession, endSession]);
 
-  // Listen for cell updates from backend and track stats
+  // Track stats from cell changes applied by the store (single and batched updates)
   useEffect(() => {
-    console.log('🔢 loadedChunks: ', loadedChunks);
-    const handleCellUpdate = ({ cx, cy, x, y, cell }: { cx: number; cy: number; x: number; y: number; cell: any }) => {
-      const chunkKey = `${cx},${cy}`;
-      const chunk = loadedChunks[chunkKey];
-      if (chunk && chunk[y] && chunk[y][x]) {
-        const previousCell = chunk[y][x];
-        
+    const handleCellChanges = (changes: CellChange[]) => {
+      let cellsCleared = 0;
+      let bombsExploded = 0;
+      
+      for (const { previous: previousCell, cell } of changes) {
         if (cell.revealed && !previousCell.revealed && !previousCell.flagged) {
-          incrementCellsCleared();
-          if (cell.hasMine) {
-            incrementBombsExploded();
+          cellsCleared++;
+          if (isRevealedMine(cell)) {
+            bombsExploded++;
           }
         }
         
+        // Hidden cells carry no mine information, so whether a flag is correct comes from the server
         if (cell.flagged && !previousCell.flagged) {
-          incrementFlagsPlaced(cell.hasMine);
+          incrementFlagsPlaced();
         }
       }
+      
+      if (cellsCleared > 0) incrementCellsCleared(cellsCleared);
+      if (bombsExploded > 0) incrementBombsExploded(bombsExploded);
     };
 
-    socket.on('cell_update', handleCellUpdate);
-    
-    return () => {
-      socket.off('cell_update', handleCellUpdate);
-    };
-  }, [loadedChunks, incrementCellsCleared, incrementBombsExploded, incrementFlagsPlaced]);
+    return subscribeCellChanges(handleCellChanges);
+  }, [incrementCellsCleared, incrementBombsExploded, incrementFlagsPlaced]);
 
   // Mouse event handlers
   useEffect(() => {
@@ -371,11 +471,13 @@ export function GridCanvas() {
       setPressedButtons(prev => new Set([...prev, e.button]));
       
       if (isSpaceDown) {
+        if (followingId) return;
         setIsPanning(true);
         setLastMouse({ x: e.clientX, y: e.clientY });
       } else {
         const coords = getMouseGridCoordinates(e);
-        if (coords && coords.cellX >= 0 && coords.cellY >= 0) {
+        // Cells are too small to aim at on the heatmap level
+        if (coords && coords.cellX >= 0 && coords.cellY >= 0 && renderLevel !== RENDER_LEVELS.HEATMAP) {
           setPressedCell({ x: coords.cellX, y: coords.cellY });
         }
       }
@@ -407,13 +509,9 @@ export function GridCanvas() {
           const currentPressedButtons = new Set([...pressedButtons, e.button]);
           if (currentPressedButtons.has(0) && currentPressedButtons.has(2)) {
             chordClick(chunkX, chunkY, localX, localY);
-            // Also re-request chunks after chord click
-            setTimeout(() => {
-              requestVisibleChunks();
-            }, 50);
           } else {
             if (e.button === 0) {
-              revealAndRefresh(chunkX, chunkY, localX, localY);
+              revealCell(chunkX, chunkY, localX, localY);
             } else if (e.button === 2) {
               flagCell(chunkX, chunkY, localX, localY);
             }
@@ -427,6 +525,7 @@ export function GridCanvas() {
         const coords = getMouseGridCoordinates(e);
         if (coords && gridSize && isWithinGridBounds(coords.cellX, coords.cellY, gridSize.width, gridSize.height)) {
           setHoverCell({ x: coords.cellX, y: coords.cellY });
+          sendCursorPosition(coords.cx / CELL_SIZE, coords.cy / CELL_SIZE);
         } else {
           setHoverCell(null);
         }
@@ -442,18 +541,16 @@ export function GridCanvas() {
 
     const handleWheel = (e: WheelEvent) => {
       e.preventDefault();
+      if (followingId) return;
       const rect = canvas.getBoundingClientRect();
       const mouseX = e.clientX - rect.left;
       const mouseY = e.clientY - rect.top;
       const worldX = (mouseX - offset.x) / zoom;
       const worldY = (mouseY - offset.y) / zoom;
       
-      const minZoomX = canvasSize.width / (CHUNK_SIZE * MIN_VISIBLE_CHUNKS * CELL_SIZE);
-      const minZoomY = canvasSize.height / (CHUNK_SIZE * MIN_VISIBLE_CHUNKS * CELL_SIZE);
-      const minZoom = Math.max(minZoomX, minZoomY, ZOOM_LIMITS.MIN);
-      
-      let newZoom = zoom - e.deltaY * ZOOM_INTENSITY * 0.01;
-      newZoom = clampZoom(newZoom);
+      // Zoom proportionally so far zoom levels are as quick to cross as close ones
+      let newZoom = zoom * Math.exp(-e.deltaY * ZOOM_INTENSITY * 0.01);
+      newZoom = clampZoom(newZoom, canvasSize, gridSize);
       
       const newOffsetX = mouseX - worldX * newZoom;
       const newOffsetY = mouseY - worldY * newZoom;
@@ -479,187 +576,142 @@ export function GridCanvas() {
       canvas.removeEventListener("wheel", handleWheel);
       canvas.removeEventListener("contextmenu", handleContextMenu);
     };
-  }, [isPanning, lastMouse, zoom, isSpaceDown, offset, canvasSize, pressedButtons, chordClick, pressedCell, getMouseGridCoordinates, gridSize, revealAndRefresh, flagCell]);
+  }, [isPanning, lastMouse, zoom, isSpaceDown, offset, canvasSize, pressedButtons, chordClick, pressedCell, getMouseGridCoordinates, gridSize, revealCell, flagCell, followingId, renderLevel, isWorkerCanvas]);
 
-  // Canvas rendering
-  useEffect(() => {    
+  const frameRef = useRef<FrameState>({ offset, zoom, canvasSize, pixelRatio, hoverCell, pressedCell });
+  const schedulerRef = useRef<RenderScheduler | null>(null);
+
+  // Render loop: at most one draw per animation frame, reading the view through
+  // frameRef; the backend draws on the main thread or in the render worker
+  useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const backend = createRendererBackend(canvas, () => setIsWorkerCanvas(false));
+    const scheduler = createRenderScheduler((dirty) => backend.draw(frameRef.current, dirty));
+    schedulerRef.current = scheduler;
     
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-    
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-    ctx.fillStyle = COLORS.BACKGROUND.PRIMARY;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.setTransform(zoom, 0, 0, zoom, offset.x, offset.y);
-    
-    const { left, top, right, bottom } = getVisibleBounds();
-    const cellStep = getCellRenderStep(zoom);
-    
-    for (let y = top; y < bottom; y += cellStep) {
-      for (let x = left; x < right; x += cellStep) {
-        const chunkSize = 100;
-        const chunkX = Math.floor(x / chunkSize);
-        const chunkY = Math.floor(y / chunkSize);
-        const localX = ((x % chunkSize) + chunkSize) % chunkSize;
-        const localY = ((y % chunkSize) + chunkSize) % chunkSize;
-        const chunkKey = `${chunkX},${chunkY}`;
-        const chunk = loadedChunks[chunkKey];
-              
-        
-        if (!chunk || !chunk[localY] || !chunk[localY][localX]) continue;
-        const cell = chunk[localY][localX];
-        const isPressed = pressedCell && pressedCell.x === x && pressedCell.y === y;
-        
-        if (cell.revealed) {
-          ctx.fillStyle = cell.hasMine ? COLORS.CELL.MINE : COLORS.CELL.REVEALED;
-        } else {
-          ctx.fillStyle = COLORS.CELL.UNREVEALED;
-        }
-        
-        if (isPressed) {
-          ctx.fillStyle = COLORS.CELL.PRESSED;
-        }
-        
-        ctx.fillRect(x * CELL_SIZE, y * CELL_SIZE, (CELL_SIZE - 1) * cellStep, (CELL_SIZE - 1) * cellStep);
-        ctx.strokeStyle = COLORS.CELL.BORDER;
-        ctx.lineWidth = 1;
-        ctx.strokeRect(x * CELL_SIZE, y * CELL_SIZE, (CELL_SIZE - 1) * cellStep, (CELL_SIZE - 1) * cellStep);
-        
-        if (cellStep === 1) {
-          if (cell.flagged && !cell.revealed) {
-            ctx.fillStyle = COLORS.GAME.FLAG;
-            ctx.beginPath();
-            ctx.moveTo(x * CELL_SIZE + 2, y * CELL_SIZE + 7);
-            ctx.lineTo(x * CELL_SIZE + 7, y * CELL_SIZE + 4);
-            ctx.lineTo(x * CELL_SIZE + 2, y * CELL_SIZE + 2);
-            ctx.closePath();
-            ctx.fill();
-          }
-          
-          if (cell.revealed && cell.hasMine) {
-            ctx.fillStyle = COLORS.GAME.MINE;
-            ctx.beginPath();
-            ctx.arc(x * CELL_SIZE + 4.5, y * CELL_SIZE + 4.5, 3, 0, 2 * Math.PI);
-            ctx.fill();
-          }
-          
-          if (cell.revealed && !cell.hasMine && cell.adjacentMines > 0) {
-            ctx.fillStyle = getNumberColor(cell.adjacentMines);
-            ctx.font = `${FONTS.SIZE.TINY} ${FONTS.FAMILY.PRIMARY}`;
-            ctx.textAlign = "center";
-            ctx.textBaseline = "middle";
-            ctx.fillText(
-              String(cell.adjacentMines),
-              x * CELL_SIZE + 4.5,
-              y * CELL_SIZE + 5
-            );
+    // Redraw fading cursors every frame until they are gone. While every cursor
+    // is fully visible, wait for the first one to start fading instead
+    let cursorFrame: number | null = null;
+    let cursorTimer: ReturnType<typeof setTimeout> | null = null;
+    const animateCursors = () => {
+      if (cursorFrame !== null) return;
+      if (cursorTimer !== null) {
+        clearTimeout(cursorTimer);
+        cursorTimer = null;
+      }
+      cursorFrame = requestAnimationFrame(() => {
+        cursorFrame = null;
+        const now = Date.now();
+        useCursorStore.getState().pruneCursors(now);
+        const cursors = Object.values(useCursorStore.getState().cursors);
+        if (cursors.length === 0) return;
+        let isFading = false;
+        for (const cursor of cursors) {
+          if (getCursorOpacity(cursor, now) < 1) {
+            isFading = true;
+            invalidateScreenRect(scheduler, frameRef.current, getCursorRect(frameRef.current, cursor));
           }
         }
-      }
-    }
-    
-    // Draw ruler lines
-    if (gridSize) {
-      ctx.save();
-      ctx.setTransform(zoom, 0, 0, zoom, offset.x, offset.y);
-      ctx.strokeStyle = COLORS.GRID.RULER_LINE;
-      ctx.lineWidth = 2;
-      
-      for (let x = RULER_INTERVAL; x < gridSize.width; x += RULER_INTERVAL) {
-        const worldX = x * CELL_SIZE;
-        ctx.beginPath();
-        ctx.moveTo(worldX, 0);
-        ctx.lineTo(worldX, gridSize.height * CELL_SIZE);
-        ctx.stroke();
-      }
-      
-      for (let y = RULER_INTERVAL; y < gridSize.height; y += RULER_INTERVAL) {
-        const worldY = y * CELL_SIZE;
-        ctx.beginPath();
-        ctx.moveTo(0, worldY);
-        ctx.lineTo(gridSize.width * CELL_SIZE, worldY);
-        ctx.stroke();
-      }
-      
-      ctx.restore();
-    }
+        if (isFading) {
+          animateCursors();
+          return;
+        }
+        const firstFade = Math.min(...cursors.map((cursor) => cursor.updatedAt)) + REMOTE_CURSOR.IDLE_FADE_DELAY;
+        cursorTimer = setTimeout(() => {
+          cursorTimer = null;
+          animateCursors();
+        }, Math.max(0, firstFade - now));
+      });
+    };
     
-    // Draw ruler labels
-    if (gridSize) {
-      ctx.setTransform(1, 0, 0, 1, 0, 0);
-      const fontSize = getResponsiveFontSize(16, zoom);
-      ctx.fillStyle = COLORS.GRID.RULER_LABEL;
-      ctx.font = `${fontSize}px ${FONTS.FAMILY.MONOSPACE}`;
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      
-      for (let x = RULER_INTERVAL; x < gridSize.width; x += RULER_INTERVAL) {
-        const worldX = x * CELL_SIZE;
-        const screenX = worldX * zoom + offset.x;
-        if (screenX >= -50 && screenX <= canvasSize.width + 50) {
-          ctx.fillText(x.toString(), screenX, 25);
+    const unsubscribers = [
+      useChunkedGridStore.subscribe((state, previous) => {
+        // Summaries of loaded chunks depend on whether they are still subscribed
+        if (state.gridSize !== previous.gridSize || state.subscribedChunks !== previous.subscribedChunks) {
+          scheduler.invalidate();
+          return;
         }
-      }
-      
-      for (let y = RULER_INTERVAL; y < gridSize.height; y += RULER_INTERVAL) {
-        const worldY = y * CELL_SIZE;
-        const screenY = worldY * zoom + offset.y;
-        if (screenY >= -50 && screenY <= canvasSize.height + 50) {
-          ctx.fillText(y.toString(), 25, screenY);
+        if (state.loadedChunks === previous.loadedChunks) return;
+        // Only chunks that were added, changed or evicted need redrawing
+        const keys = new Set([...Object.keys(state.loadedChunks), ...Object.keys(previous.loadedChunks)]);
+        for (const key of keys) {
+          if (state.loadedChunks[key] === previous.loadedChunks[key]) continue;
+          const { cx, cy } = parseChunkKey(key);
+          invalidateCells(scheduler, frameRef.current, cx * CHUNK_SIZE, cy * CHUNK_SIZE, CHUNK_SIZE);
         }
-      }
-      
-      ctx.restore();
-    }
+      }),
+      useOverviewStore.subscribe((state, previous) => {
+        if (state.summaries !== previous.summaries) scheduler.invalidate();
+      }),
+      useThemeStore.subscribe((state, previous) => {
+        if (state.themeId !== previous.themeId) scheduler.invalidate();
+      }),
+      useGlobalStatsStore.subscribe((state, previous) => {
+        if (state.stats !== previous.stats) scheduler.invalidateRegion(STATS_OVERLAY_RECT);
+      }),
+      usePlayerStats.subscribe((state, previous) => {
+        if (state.stats !== previous.stats) scheduler.invalidateRegion(STATS_OVERLAY_RECT);
+      }),
+      useCursorStore.subscribe((state, previous) => {
+        if (state.cursors === previous.cursors) return;
+        for (const userId of new Set([...Object.keys(state.cursors), ...Object.keys(previous.cursors)])) {
+          const before = previous.cursors[userId];
+          const after = state.cursors[userId];
+          if (before === after) continue;
+          if (before) invalidateScreenRect(scheduler, frameRef.current, getCursorRect(frameRef.current, before));
+          if (after) invalidateScreenRect(scheduler, frameRef.current, getCursorRect(frameRef.current, after));
+        }
+        animateCursors();
+      }),
+    ];
     
-    // Draw MASSIVESWEEPER in center
-    const gridCenterX = gridSize ? (gridSize.width * CELL_SIZE) / 2 : DEFAULT_GRID_CENTER.X;
-    const gridCenterY = gridSize ? (gridSize.height * CELL_SIZE) / 2 : DEFAULT_GRID_CENTER.Y;
-    ctx.save();
-    ctx.setTransform(zoom, 0, 0, zoom, offset.x, offset.y);
-    ctx.font = `bold 48px ${FONTS.FAMILY.PRIMARY}`;    
-    ctx.fillStyle = "rgba(0,0,0,0.15)";
-    ctx.textAlign = "center";
-    ctx.textBaseline = "middle";
-    ctx.fillText("MASSIVESWEEPER", gridCenterX, gridCenterY);
-    ctx.restore();
+    scheduler.invalidate();
+    animateCursors();
     
-    // Draw UI overlay
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-    ctx.fillStyle = COLORS.BACKGROUND.OVERLAY;
-    ctx.fillRect(SPACING.SMALL, SPACING.SMALL, DIMENSIONS.OVERLAY.WIDTH, DIMENSIONS.OVERLAY.HEIGHT);
-    ctx.fillStyle = COLORS.UI.TEXT.PRIMARY;
-    ctx.font = `16px ${FONTS.FAMILY.MONOSPACE}`;
-    ctx.textAlign = "left";
-    ctx.textBaseline = "top";
-    ctx.fillText(`MassiveSweeper`, SPACING.BASE, SPACING.BASE);
-    ctx.fillText(`🧹 Active sweepers: ${backendStats.activeUsers}`, SPACING.BASE, 30);
-    ctx.fillText(`🧹 Total sweepers: ${backendStats.uniqueUsersEver}`, SPACING.BASE, 50);
-    ctx.fillText(`🗺️ Revealed: ${backendStats.revealed} (${backendStats.revealedPercent.toFixed(2)}%)`, SPACING.BASE, 70);
-    ctx.fillText(`🚩 Flags planted: ${backendStats.flagged}`, SPACING.BASE, 90);
-    ctx.fillText(`💥 Mines exploded: ${backendStats.bombsExploded}`, SPACING.BASE, 110);
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      if (cursorFrame !== null) cancelAnimationFrame(cursorFrame);
+      if (cursorTimer !== null) clearTimeout(cursorTimer);
+      scheduler.cancel();
+      backend.dispose();
+      schedulerRef.current = null;
+    };
+  }, [isWorkerCanvas]);
+
+  // Hand view and pointer changes to the render loop, redrawing as little as possible
+  useEffect(() => {
+    const previous = frameRef.current;
+    const frame = { offset, zoom, canvasSize, pixelRatio, hoverCell, pressedCell };
+    frameRef.current = frame;
     
-    if (hoverCell) {
-      ctx.fillText(`🗺️ You: (${hoverCell.x}, ${hoverCell.y})`, SPACING.BASE, 130);
+    const scheduler = schedulerRef.current;
+    if (!scheduler) return;
+    if (
+      previous.offset !== offset ||
+      previous.zoom !== zoom ||
+      previous.canvasSize !== canvasSize ||
+      previous.pixelRatio !== pixelRatio
+    ) {
+      scheduler.invalidate();
+      return;
     }
-    
-    // Connection status indicator
-    // ctx.fillStyle = isSocketConnected ? COLORS.UI.SUCCESS : COLORS.UI.ERROR;
-    // ctx.fillText(`🔌 ${isSocketConnected ? 'Connected' : 'Disconnected'}`, SPACING.BASE, 150);
-    
-    // Draw player stats
-    const { stats } = usePlayerStats.getState();
-    ctx.fillText(`Your Stats:`, SPACING.BASE, 150);
-    ctx.fillText(`🧹 Cells: ${stats.cellsCleared.toLocaleString()}`, SPACING.BASE, 170);
-    ctx.fillText(`🚩 Flags: ${stats.flagsPlaced.toLocaleString()}`, SPACING.BASE, 190);
-  }, [loadedChunks, offset, zoom, canvasSize, backendStats, hoverCell, pressedCell, gridSize, isSocketConnected]);
+    if (previous.hoverCell !== hoverCell) {
+      scheduler.invalidateRegion(STATS_OVERLAY_RECT);
+      if (previous.hoverCell) invalidateCells(scheduler, frame, previous.hoverCell.x, previous.hoverCell.y, 1);
+      if (hoverCell) invalidateCells(scheduler, frame, hoverCell.x, hoverCell.y, 1);
+    }
+    if (previous.pressedCell !== pressedCell) {
+      if (previous.pressedCell) invalidateCells(scheduler, frame, previous.pressedCell.x, previous.pressedCell.y, 1);
+      if (pressedCell) invalidateCells(scheduler, frame, pressedCell.x, pressedCell.y, 1);
+    }
+  }, [offset, zoom, canvasSize, pixelRatio, hoverCell, pressedCell]);
 
   // Keyboard event handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === "Space") setIsSpaceDown(true);
+      // Spaces typed into chat or other fields must not start panning
+      if (e.code === "Space" && !isEditableTarget(e.target)) setIsSpaceDown(true);
     };
     const handleKeyUp = (e: KeyboardEvent) => {
       if (e.code === "Space") setIsSpaceDown(false);
@@ -674,19 +726,89 @@ export function GridCanvas() {
 
   return (
     <>
+      {/* The backing store has a pixel per device pixel and is shown at CSS size. A canvas
+          drawn by the render worker is sized by the worker; setting its size here would throw */}
       <canvas
+        key={isWorkerCanvas ? "worker" : "main"}
         ref={canvasRef}
-        width={canvasSize.width}
-        height={canvasSize.height}
-        style={{ display: "block", position: "absolute", top: 0, left: 0, cursor: getCursor() }}
+        width={isWorkerCanvas ? undefined : Math.round(canvasSize.width * pixelRatio)}
+        height={isWorkerCanvas ? undefined : Math.round(canvasSize.height * pixelRatio)}
+        style={{
+          display: "block",
+          position: "absolute",
+          top: 0,
+          left: 0,
+          width: canvasSize.width,
+          height: canvasSize.height,
+          cursor: getCursor(),
+        }}
       />
+      <Minimap offset={offset} zoom={zoom} canvasSize={canvasSize} onNavigate={centerOn} />
+      
+      {followingId && (
+        <div
+          role="status"
+          style={{
+            position: "fixed",
+            bottom: SPACING.BASE,
+            left: "50%",
+            transform: "translateX(-50%)",
+            zIndex: Z_INDEX.UI,
+            display: "flex",
+            alignItems: "center",
+            gap: SPACING.BASE,
+            padding: "6px 12px",
+            borderRadius: 4,
+            background: COLORS.BRAND.ACCENT,
+            color: COLORS.UI.TEXT.WHITE,
+            fontSize: 13,
+          }}
+        >
+          <span>👁️ Following {followedName || "a player"} (Esc to stop)</span>
+          <button
+            onClick={() => follow(null)}
+            style={{
+              fontSize: 12,
+              padding: "2px 8px",
+              borderRadius: 4,
+              border: `1px solid ${COLORS.UI.TEXT.WHITE}`,
+              background: "transparent",
+              color: COLORS.UI.TEXT.WHITE,
+              cursor: CURSORS.POINTER,
+            }}
+          >
+            Stop
+          </button>
+        </div>
+      )}
+      
+      {copiedLink && (
+        <div
+          role="status"
+          style={{
+            position: "fixed",
+            top: SPACING.BASE,
+            left: "50%",
+            transform: "translateX(-50%)",
+            zIndex: Z_INDEX.UI,
+            padding: "6px 12px",
+            borderRadius: 4,
+            background: COLORS.UI.INFO,
+            color: COLORS.UI.TEXT.WHITE,
+            fontSize: 13,
+            pointerEvents: "none",
+          }}
+        >
+          🔗 Link to {copiedLink} copied
+        </div>
+      )}
       
       {/* Debug Panel (dev mode only) */}
       {import.meta.env.DEV && (
         <div style={{ 
           position: "absolute", 
           bottom: SPACING.BASE, 
-          left: SPACING.BASE, 
+          left: SPACING.BASE * 2 + MINIMAP.SIZE, // Beside the minimap
           zIndex: Z_INDEX.DEBUG 
         }}>
           <button
@@ -722,7 +844,8 @@ export function GridCanvas() {
             </div>
             <div>🔍 Zoom: {zoom.toFixed(2)}</div>
             <div>📦 Buffer: {getBufferZoneSize(zoom)} chunks</div>
-            <div>📊 Chunks: {Object.keys(loadedChunks).length} loaded</div>
+            <div>📊 Chunks: {Object.keys(loadedChunks).length}/{chunkBudget} loaded</div>
+            <div>📡 Subscribed: {subscribedChunkCount} chunks</div>
             <div>🔌 Socket: {isSocketConnected ? 'Connected' : 'Disconnected'}</div>
             <div>👥 Active Players: {backendStats.activeUsers}</div>
             <div>🌍 Total Players Ever: {backendStats.uniqueUsersEver?.toLocaleString() || 'N/A'}</div>
@@ -753,6 +876,13 @@ export function GridCanvas() {
               <p><strong>📈 Completion percentage:</strong> {backendStats.revealedPercent.toFixed(2)}%</p>
               <p><strong>👥 Unique players ever:</strong> {backendStats.uniqueUsersEver.toLocaleString()}</p>
               <p><strong>🎯 Flag accuracy:</strong> {backendStats.flagged > 0 ? ((backendStats.correctFlags / backendStats.flagged) * 100).toFixed(1) : 0}%</p>
+              {/* Only servers that score flags report them, so there may be nothing to show */}
+              {playerStats.correctFlags + playerStats.incorrectFlags > 0 && (
+                <p>
+                  <strong>🎯 Your flag accuracy:</strong> {playerFlagAccuracy.toFixed(1)}%
+                  {' '}({playerStats.correctFlags.toLocaleString()} of {(playerStats.correctFlags + playerStats.incorrectFlags).toLocaleString()} correct)
+                </p>
+              )}
             </div>
             
             <button 
@@ -0,0 +1,150 @@
+/**
+ * Chunk Bitmap Cache
+ *
+ * Pre-renders loaded chunks to offscreen canvases at a few zoom tiers so each
+ * frame blits one image per chunk instead of drawing every cell. A bitmap is
+ * redrawn only when its chunk's version changes, i.e. when one of its cells
+ * (or a pending action on it) changed; least recently drawn bitmaps are
+ * dropped once the pixel budget is exceeded.
+ */
+
+import type { Cell, Chunk } from "../hooks/useChunkedGridStore";
+import { CELL_SIZE, CHUNK_BITMAP, chunkToWorld } from "../constants/game";
+import { drawCell, type Canvas2D } from "./drawCell";
+
+type ChunkCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+interface CachedBitmap {
+  canvas: ChunkCanvas;
+  version: number;
+  lastUsed: number;
+}
+
+const bitmaps = new Map<string, CachedBitmap>(); // Keyed by chunk key and tier
+let cachedPixels = 0;
+let drawCounter = 0;
+
+/**
+ * Create a canvas for a chunk bitmap, offscreen where supported
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns Canvas
+ */
+function createChunkCanvas(width: number, height: number): ChunkCanvas {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Draw a chunk's cells into its bitmap
+ * @param canvas - Bitmap canvas, sized for the tier
+ * @param chunk - Loaded chunk
+ * @param cx - Chunk X coordinate
+ * @param cy - Chunk Y coordinate
+ * @param tier - Bitmap scale
+ * @param getCell - Reads the displayed cell, including pending actions
+ */
+function renderChunk(
+  canvas: ChunkCanvas,
+  chunk: Chunk,
+  cx: number,
+  cy: number,
+  tier: number,
+  getCell: (worldX: number, worldY: number) => Cell | null
+): void {
+  const ctx = canvas.getContext("2d") as Canvas2D | null;
+  if (!ctx) return;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(tier, 0, 0, tier, 0, 0);
+  for (let y = 0; y < chunk.height; y++) {
+    for (let x = 0; x < chunk.width; x++) {
+      const cell = getCell(chunkToWorld(cx, x), chunkToWorld(cy, y));
+      if (cell) drawCell(ctx, cell, x, y);
+    }
+  }
+}
+
+/**
+ * Drop least recently drawn bitmaps until the cache fits its pixel budget
+ */
+function enforceBudget(): void {
+  if (cachedPixels <= CHUNK_BITMAP.MAX_PIXELS) return;
+  const oldestFirst = [...bitmaps.entries()].sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+  for (const [key, bitmap] of oldestFirst) {
+    if (cachedPixels <= CHUNK_BITMAP.MAX_PIXELS) break;
+    bitmaps.delete(key);
+    cachedPixels -= bitmap.canvas.width * bitmap.canvas.height;
+  }
+}
+
+/**
+ * Blit a chunk, rendering its bitmap first if it is missing or out of date
+ * @param ctx - Canvas context, transformed to world space
+ * @param key - Chunk key
+ * @param chunk - Loaded chunk
+ * @param cx - Chunk X coordinate
+ * @param cy - Chunk Y coordinate
+ * @param tier - Bitmap scale (see getBitmapTier)
+ * @param getCell - Reads the displayed cell, including pending actions
+ */
+export function drawChunkBitmap(
+  ctx: Canvas2D,
+  key: string,
+  chunk: Chunk,
+  cx: number,
+  cy: number,
+  tier: number,
+  getCell: (worldX: number, worldY: number) => Cell | null
+): void {
+  const bitmapKey = `${key}@${tier}`;
+  let bitmap = bitmaps.get(bitmapKey);
+  if (!bitmap || bitmap.version !== chunk.version) {
+    const width = Math.ceil(chunk.width * CELL_SIZE * tier);
+    const height = Math.ceil(chunk.height * CELL_SIZE * tier);
+    // Reuse the stale bitmap's canvas when the size still matches
+    const canvas = bitmap && bitmap.canvas.width === width && bitmap.canvas.height === height
+      ? bitmap.canvas
+      : createChunkCanvas(width, height);
+    if (bitmap) cachedPixels -= bitmap.canvas.width * bitmap.canvas.height;
+    renderChunk(canvas, chunk, cx, cy, tier, getCell);
+    bitmap = { canvas, version: chunk.version, lastUsed: 0 };
+    bitmaps.set(bitmapKey, bitmap);
+    cachedPixels += width * height;
+  }
+  bitmap.lastUsed = ++drawCounter;
+
+  ctx.drawImage(
+    bitmap.canvas,
+    chunkToWorld(cx, 0) * CELL_SIZE,
+    chunkToWorld(cy, 0) * CELL_SIZE,
+    chunk.width * CELL_SIZE,
+    chunk.height * CELL_SIZE
+  );
+  enforceBudget();
+}
+
+/**
+ * Forget bitmaps of chunks that are no longer loaded
+ * @param loadedChunks - Currently loaded chunks
+ */
+export function pruneChunkBitmaps(loadedChunks: Record<string, Chunk>): void {
+  for (const [bitmapKey, bitmap] of bitmaps) {
+    const chunkKey = bitmapKey.slice(0, bitmapKey.lastIndexOf("@"));
+    if (loadedChunks[chunkKey]) continue;
+    bitmaps.delete(bitmapKey);
+    cachedPixels -= bitmap.canvas.width * bitmap.canvas.height;
+  }
+}
+
+/**
+ * Forget all bitmaps, e.g. after the palette changed
+ */
+export function clearChunkBitmaps(): void {
+  bitmaps.clear();
+  cachedPixels = 0;
+}
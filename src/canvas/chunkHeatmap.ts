@@ -0,0 +1,141 @@
+/**
+ * Chunk Heatmap
+ *
+ * Draws chunks as shaded blocks for views where individual cells are too small
+ * to see: a whole chunk from its summary (far zoom and the minimap), or a
+ * loaded chunk as square blocks of cells (intermediate zoom).
+ */
+
+import type { Chunk, ChunkSummary } from "../hooks/useChunkedGridStore";
+import { CELL_SIZE, CHUNK_SIZE, MINE_PERCENTAGE } from "../constants/game";
+import { PACKED_CELL_BITS } from "../constants/socket";
+import { COLORS, HEATMAP } from "../constants/ui";
+import type { Canvas2D } from "./drawCell";
+import { getPalette } from "./palette";
+
+// Mines in a typical full chunk; flag density is measured against it
+const EXPECTED_MINES_PER_CHUNK = CHUNK_SIZE * CHUNK_SIZE * MINE_PERCENTAGE;
+
+// Block value for blocks containing a revealed mine; other values are the revealed share in percent
+const EXPLODED_BLOCK = 255;
+
+// Chunk wrappers are replaced whenever their cells change, so blocks are computed once per version and size
+const blockCache = new WeakMap<Chunk, Map<number, Uint8Array>>();
+
+/**
+ * Draw one chunk's summary as a shaded rectangle
+ * @param ctx - Canvas context, already transformed to the target space
+ * @param summary - Chunk summary
+ * @param x - Left edge
+ * @param y - Top edge
+ * @param width - Rectangle width
+ * @param height - Rectangle height
+ */
+export function drawChunkSummary(
+  ctx: Canvas2D,
+  summary: ChunkSummary,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const { CELL, GAME } = getPalette();
+  ctx.fillStyle = CELL.UNREVEALED;
+  ctx.fillRect(x, y, width, height);
+
+  ctx.globalAlpha = summary.revealedPercent / 100;
+  ctx.fillStyle = CELL.REVEALED;
+  ctx.fillRect(x, y, width, height);
+
+  if (summary.flagCount > 0) {
+    ctx.globalAlpha = Math.min(1, summary.flagCount / EXPECTED_MINES_PER_CHUNK) * HEATMAP.MAX_FLAG_TINT;
+    ctx.fillStyle = GAME.FLAG;
+    ctx.fillRect(x, y, width, height);
+  }
+
+  if (summary.explodedCount > 0) {
+    ctx.globalAlpha = Math.min(1, summary.explodedCount / HEATMAP.EXPLODED_SATURATION) * HEATMAP.MAX_EXPLODED_TINT;
+    ctx.fillStyle = COLORS.HEATMAP.EXPLODED;
+    ctx.fillRect(x, y, width, height);
+  }
+
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Aggregate a chunk's cells into square blocks
+ * @param chunk - Loaded chunk
+ * @param step - Block side in cells
+ * @returns One value per block, row by row (see EXPLODED_BLOCK)
+ */
+function getChunkBlocks(chunk: Chunk, step: number): Uint8Array {
+  let bySize = blockCache.get(chunk);
+  if (!bySize) {
+    bySize = new Map();
+    blockCache.set(chunk, bySize);
+  }
+  const cached = bySize.get(step);
+  if (cached) return cached;
+
+  const explodedBits = PACKED_CELL_BITS.REVEALED | PACKED_CELL_BITS.HAS_MINE;
+  const columns = Math.ceil(chunk.width / step);
+  const rows = Math.ceil(chunk.height / step);
+  const blocks = new Uint8Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let revealed = 0;
+      let total = 0;
+      let exploded = false;
+      for (let y = row * step; y < Math.min(chunk.height, (row + 1) * step); y++) {
+        for (let x = column * step; x < Math.min(chunk.width, (column + 1) * step); x++) {
+          const byte = chunk.cells[y * chunk.width + x];
+          total++;
+          if (byte & PACKED_CELL_BITS.REVEALED) revealed++;
+          if ((byte & explodedBits) === explodedBits) exploded = true;
+        }
+      }
+      blocks[row * columns + column] = exploded ? EXPLODED_BLOCK : Math.round((revealed / total) * 100);
+    }
+  }
+  bySize.set(step, blocks);
+  return blocks;
+}
+
+/**
+ * Draw a loaded chunk as square blocks of cells, each shaded by its revealed share
+ * @param ctx - Canvas context, transformed to world space
+ * @param chunk - Loaded chunk
+ * @param x - Chunk's left edge in world pixels
+ * @param y - Chunk's top edge in world pixels
+ * @param step - Block side in cells
+ */
+export function drawChunkBlocks(ctx: Canvas2D, chunk: Chunk, x: number, y: number, step: number): void {
+  const blocks = getChunkBlocks(chunk, step);
+  const columns = Math.ceil(chunk.width / step);
+  const { CELL } = getPalette();
+  for (let index = 0; index < blocks.length; index++) {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    const blockX = x + column * step * CELL_SIZE;
+    const blockY = y + row * step * CELL_SIZE;
+    const width = Math.min(step, chunk.width - column * step) * CELL_SIZE;
+    const height = Math.min(step, chunk.height - row * step) * CELL_SIZE;
+    const value = blocks[index];
+
+    if (value === EXPLODED_BLOCK) {
+      ctx.fillStyle = CELL.MINE;
+      ctx.fillRect(blockX, blockY, width, height);
+      continue;
+    }
+    if (value < 100) {
+      ctx.fillStyle = CELL.UNREVEALED;
+      ctx.fillRect(blockX, blockY, width, height);
+    }
+    if (value > 0) {
+      ctx.globalAlpha = value / 100;
+      ctx.fillStyle = CELL.REVEALED;
+      ctx.fillRect(blockX, blockY, width, height);
+      ctx.globalAlpha = 1;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Cell Drawing
+ *
+ * Draws a single cell in world space (CELL_SIZE pixels per cell). Shared by
+ * the chunk bitmap cache and the direct drawing used at close zoom.
+ */
+
+import type { Cell } from "../hooks/useChunkedGridStore";
+import { isRevealedMine, getRevealedCount } from "../network/chunkCodec";
+import { CELL_SIZE } from "../constants/game";
+import { FONTS, getNumberColor } from "../constants/ui";
+import { getPalette } from "./palette";
+
+/** 2D context of an on-screen or offscreen canvas */
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Draw a cell with its flag, mine or number
+ * @param ctx - Canvas context, transformed to world space
+ * @param cell - Cell to draw
+ * @param x - Cell's left edge in cells
+ * @param y - Cell's top edge in cells
+ * @param isPressed - Draw the cell as held down
+ */
+export function drawCell(ctx: Canvas2D, cell: Cell, x: number, y: number, isPressed = false): void {
+  const left = x * CELL_SIZE;
+  const top = y * CELL_SIZE;
+  const { CELL, GAME, NUMBERS } = getPalette();
+
+  if (isPressed || cell.pending) {
+    ctx.fillStyle = CELL.PRESSED;
+  } else if (cell.revealed) {
+    ctx.fillStyle = isRevealedMine(cell) ? CELL.MINE : CELL.REVEALED;
+  } else {
+    ctx.fillStyle = CELL.UNREVEALED;
+  }
+
+  ctx.fillRect(left, top, CELL_SIZE - 1, CELL_SIZE - 1);
+  ctx.strokeStyle = CELL.BORDER;
+  ctx.lineWidth = 1;
+  ctx.strokeRect(left, top, CELL_SIZE - 1, CELL_SIZE - 1);
+
+  if (cell.flagged && !cell.revealed) {
+    ctx.fillStyle = GAME.FLAG;
+    ctx.beginPath();
+    ctx.moveTo(left + 2, top + 7);
+    ctx.lineTo(left + 7, top + 4);
+    ctx.lineTo(left + 2, top + 2);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  if (isRevealedMine(cell)) {
+    ctx.fillStyle = GAME.MINE;
+    ctx.beginPath();
+    ctx.arc(left + 4.5, top + 4.5, 3, 0, 2 * Math.PI);
+    ctx.fill();
+  }
+
+  const count = getRevealedCount(cell);
+  if (count > 0) {
+    ctx.fillStyle = getNumberColor(count, NUMBERS);
+    ctx.font = `${FONTS.SIZE.TINY} ${FONTS.FAMILY.PRIMARY}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(String(count), left + 4.5, top + 5);
+  }
+}
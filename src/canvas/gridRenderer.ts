@@ -0,0 +1,442 @@
+/**
+ * Grid Renderer
+ *
+ * Draws a frame of the grid as a stack of layers: cells, highlights, rulers,
+ * labels, other players and overlays (see RENDER_LAYER_ORDER). Layers draw
+ * from the frame and scene passed in rather than from the stores, so the same
+ * pipeline runs on the main thread and in the render worker. Layers
+ * registered while this module loads draw in both; layers registered later
+ * only draw on the thread that registered them.
+ */
+
+import type { Cell, Chunk, ChunkSummary } from "../hooks/useChunkedGridStore";
+import type { GlobalStats } from "../hooks/useGlobalStatsStore";
+import type { PlayerStats } from "../hooks/usePlayerStats";
+import type { RemoteCursor } from "../hooks/useCursorStore";
+import { drawChunkSummary, drawChunkBlocks } from "./chunkHeatmap";
+import { drawChunkBitmap, pruneChunkBitmaps } from "./chunkBitmapCache";
+import { drawCell, type Canvas2D } from "./drawCell";
+import { getPalette } from "./palette";
+import type { DirtyRect } from "./renderScheduler";
+import {
+  CHUNK_SIZE,
+  CELL_SIZE,
+  DEFAULT_GRID_CENTER,
+  OVERVIEW_ZOOM_THRESHOLD,
+  RENDER_LEVELS,
+  RENDER_LAYER_ORDER,
+  getCellRenderStep,
+  getBitmapTier,
+  getRenderLevel,
+  getRulerInterval,
+  worldToChunk
+} from "../constants/game";
+import { COLORS, FONTS, SPACING, DIMENSIONS, REMOTE_CURSOR, getResponsiveFontSize } from "../constants/ui";
+import { createChunkKey } from "../constants/socket";
+
+/** View and pointer state the render loop draws */
+export interface FrameState {
+  offset: { x: number; y: number };
+  zoom: number;
+  canvasSize: { width: number; height: number }; // CSS pixels
+  pixelRatio: number; // Device pixels per CSS pixel
+  hoverCell: { x: number; y: number } | null;
+  pressedCell: { x: number; y: number } | null;
+}
+
+/** Another player's cursor as drawn */
+export interface DrawnCursor extends RemoteCursor {
+  opacity: number; // See getCursorOpacity
+}
+
+/** Game state a frame is drawn from */
+export interface RenderScene {
+  gridSize: { width: number; height: number } | null;
+  loadedChunks: Record<string, Chunk>;
+  getCell: (worldX: number, worldY: number) => Cell | null; // Displayed cell, including pending actions
+  getSummary: (key: string, chunk: Chunk | undefined) => ChunkSummary | null; // See getChunkSummary
+  cursors: DrawnCursor[];
+  backendStats: GlobalStats;
+  playerStats: PlayerStats;
+}
+
+/** Cell rectangle, right and bottom exclusive */
+export interface CellBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/** What a layer draws from */
+export interface LayerContext {
+  ctx: Canvas2D; // Clipped to the dirty regions and transformed to world space (see setWorldTransform)
+  frame: FrameState;
+  scene: RenderScene;
+  cells: CellBounds; // Cells covered by the dirty regions
+}
+
+export interface RenderLayer {
+  id: string;
+  order: number; // Lower layers draw first (see RENDER_LAYER_ORDER)
+  draw: (layer: LayerContext) => void; // Canvas state changes are undone after each layer
+}
+
+/** Screen area of the stats overlay, redrawn on its own when only the stats change */
+export const STATS_OVERLAY_RECT: DirtyRect = {
+  x: SPACING.SMALL,
+  y: SPACING.SMALL,
+  width: DIMENSIONS.OVERLAY.WIDTH,
+  height: DIMENSIONS.OVERLAY.HEIGHT,
+};
+
+const layers: RenderLayer[] = [];
+
+/**
+ * Add a layer to the pipeline, replacing any layer with the same ID
+ * @param layer - Layer to draw on every frame
+ * @returns Function that removes the layer again
+ */
+export function registerLayer(layer: RenderLayer): () => void {
+  const existing = layers.findIndex((registered) => registered.id === layer.id);
+  if (existing !== -1) layers.splice(existing, 1);
+  layers.push(layer);
+  layers.sort((a, b) => a.order - b.order);
+  return () => {
+    const index = layers.indexOf(layer);
+    if (index !== -1) layers.splice(index, 1);
+  };
+}
+
+/**
+ * Transform a context so one unit is one CSS pixel on screen
+ * @param ctx - Grid canvas context
+ * @param frame - Current view
+ */
+export function setScreenTransform(ctx: Canvas2D, frame: FrameState): void {
+  ctx.setTransform(frame.pixelRatio, 0, 0, frame.pixelRatio, 0, 0);
+}
+
+/**
+ * Transform a context so one unit is one world pixel (CELL_SIZE per cell)
+ * @param ctx - Grid canvas context
+ * @param frame - Current view
+ */
+export function setWorldTransform(ctx: Canvas2D, frame: FrameState): void {
+  const { offset, zoom, pixelRatio } = frame;
+  ctx.setTransform(zoom * pixelRatio, 0, 0, zoom * pixelRatio, offset.x * pixelRatio, offset.y * pixelRatio);
+}
+
+/**
+ * Calculate the cells covered by a screen rectangle
+ * @param offset - View offset in screen pixels
+ * @param zoom - Current zoom level
+ * @param rect - Screen rectangle
+ * @param gridSize - Grid size in cells
+ * @returns Cell bounds, clamped to the grid
+ */
+export function getCellBounds(
+  offset: { x: number; y: number },
+  zoom: number,
+  rect: DirtyRect,
+  gridSize: { width: number; height: number } | null
+): CellBounds {
+  if (!gridSize) return { left: 0, top: 0, right: 0, bottom: 0 };
+
+  const left = Math.max(0, Math.floor((rect.x - offset.x) / (CELL_SIZE * zoom)));
+  const top = Math.max(0, Math.floor((rect.y - offset.y) / (CELL_SIZE * zoom)));
+  const right = Math.min(gridSize.width, Math.ceil((rect.x + rect.width - offset.x) / (CELL_SIZE * zoom)));
+  const bottom = Math.min(gridSize.height, Math.ceil((rect.y + rect.height - offset.y) / (CELL_SIZE * zoom)));
+  return { left, top, right, bottom };
+}
+
+/**
+ * Get the screen area a remote cursor and its label can cover
+ * @param frame - Current view
+ * @param cursor - Remote cursor
+ * @returns Screen rectangle
+ */
+export function getCursorRect(frame: FrameState, cursor: RemoteCursor): DirtyRect {
+  const { offset, zoom } = frame;
+  const size = REMOTE_CURSOR.SIZE;
+  return {
+    x: offset.x + cursor.x * CELL_SIZE * zoom - 1,
+    y: offset.y + cursor.y * CELL_SIZE * zoom - 1,
+    width: size * 0.7 + REMOTE_CURSOR.LABEL_MAX_WIDTH + REMOTE_CURSOR.LABEL_PADDING * 2 + 2,
+    height: size + 11 + REMOTE_CURSOR.LABEL_PADDING * 2 + 2,
+  };
+}
+
+/**
+ * Draw a frame, limited to the dirty regions if given
+ * @param ctx - Grid canvas context
+ * @param frame - View and pointer state
+ * @param scene - Game state to draw
+ * @param dirty - Screen regions to redraw, or null for the whole canvas
+ */
+export function drawFrame(ctx: Canvas2D, frame: FrameState, scene: RenderScene, dirty: DirtyRect[] | null): void {
+  const { offset, zoom, canvasSize } = frame;
+
+  // Everything below is clipped to the dirty regions; cells are only visited within their bounding box
+  const regions = dirty ?? [{ x: 0, y: 0, width: canvasSize.width, height: canvasSize.height }];
+  const boundsX = Math.min(...regions.map((r) => r.x));
+  const boundsY = Math.min(...regions.map((r) => r.y));
+  const dirtyBounds = {
+    x: boundsX,
+    y: boundsY,
+    width: Math.max(...regions.map((r) => r.x + r.width)) - boundsX,
+    height: Math.max(...regions.map((r) => r.y + r.height)) - boundsY,
+  };
+
+  // Saves are always restored, so a throwing layer can't leave its clip or transform on the next frame
+  ctx.save();
+  try {
+    setScreenTransform(ctx, frame);
+    ctx.beginPath();
+    for (const region of regions) {
+      ctx.rect(region.x, region.y, region.width, region.height);
+    }
+    ctx.clip();
+    ctx.fillStyle = getPalette().CANVAS;
+    ctx.fillRect(dirtyBounds.x, dirtyBounds.y, dirtyBounds.width, dirtyBounds.height);
+
+    const cells = getCellBounds(offset, zoom, dirtyBounds, scene.gridSize);
+    for (const layer of layers) {
+      ctx.save();
+      try {
+        setWorldTransform(ctx, frame);
+        layer.draw({ ctx, frame, scene, cells });
+      } finally {
+        ctx.restore();
+      }
+    }
+  } finally {
+    ctx.restore();
+  }
+}
+
+// Visible chunks, the way the render level calls for
+registerLayer({
+  id: "cells",
+  order: RENDER_LAYER_ORDER.CELLS,
+  draw: ({ ctx, frame, scene, cells }) => {
+    const { zoom, pixelRatio } = frame;
+    const { loadedChunks, gridSize, getCell, getSummary } = scene;
+    if (!gridSize) return;
+    const { left, top, right, bottom } = cells;
+    const renderLevel = getRenderLevel(zoom);
+    const isOverviewZoom = zoom < OVERVIEW_ZOOM_THRESHOLD;
+    const cellStep = getCellRenderStep(zoom);
+    // Bitmaps are picked by device pixels per world pixel, so they stay sharp on dense screens
+    const bitmapTier = getBitmapTier(zoom * pixelRatio);
+
+    for (let cy = worldToChunk(top); cy <= worldToChunk(bottom - 1); cy++) {
+      for (let cx = worldToChunk(left); cx <= worldToChunk(right - 1); cx++) {
+        const key = createChunkKey(cx, cy);
+        const chunk = loadedChunks[key];
+        const chunkX = cx * CHUNK_SIZE;
+        const chunkY = cy * CHUNK_SIZE;
+        if (chunk && renderLevel === RENDER_LEVELS.CELLS) {
+          // Without a tier, cells are drawn one by one below
+          if (bitmapTier !== null) drawChunkBitmap(ctx, key, chunk, cx, cy, bitmapTier, getCell);
+          continue;
+        }
+        if (chunk && renderLevel === RENDER_LEVELS.BLOCKS) {
+          drawChunkBlocks(ctx, chunk, chunkX * CELL_SIZE, chunkY * CELL_SIZE, cellStep);
+          continue;
+        }
+        // Close up, chunks still loading are left blank
+        if (!isOverviewZoom) continue;
+        const summary = getSummary(key, chunk);
+        if (!summary) continue;
+        drawChunkSummary(
+          ctx,
+          summary,
+          chunkX * CELL_SIZE,
+          chunkY * CELL_SIZE,
+          Math.min(CHUNK_SIZE, gridSize.width - chunkX) * CELL_SIZE,
+          Math.min(CHUNK_SIZE, gridSize.height - chunkY) * CELL_SIZE
+        );
+      }
+    }
+    pruneChunkBitmaps(loadedChunks);
+
+    // Beyond the largest bitmap tier few enough cells are visible to draw directly
+    if (renderLevel === RENDER_LEVELS.CELLS && bitmapTier === null) {
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          const cell = getCell(x, y);
+          if (cell) drawCell(ctx, cell, x, y);
+        }
+      }
+    }
+  },
+});
+
+// Hovered and pressed cells; these change too often to be baked into chunk bitmaps
+registerLayer({
+  id: "highlights",
+  order: RENDER_LAYER_ORDER.HIGHLIGHTS,
+  draw: ({ ctx, frame, scene }) => {
+    const { zoom, hoverCell, pressedCell } = frame;
+    if (getRenderLevel(zoom) !== RENDER_LEVELS.CELLS) return;
+
+    const pressed = pressedCell && scene.getCell(pressedCell.x, pressedCell.y);
+    if (pressedCell && pressed) drawCell(ctx, pressed, pressedCell.x, pressedCell.y, true);
+
+    if (hoverCell && scene.getCell(hoverCell.x, hoverCell.y)) {
+      ctx.fillStyle = getPalette().GAME.HOVER;
+      ctx.fillRect(hoverCell.x * CELL_SIZE, hoverCell.y * CELL_SIZE, CELL_SIZE - 1, CELL_SIZE - 1);
+    }
+  },
+});
+
+// Ruler lines
+registerLayer({
+  id: "rulers",
+  order: RENDER_LAYER_ORDER.RULERS,
+  draw: ({ ctx, frame, scene }) => {
+    const { gridSize } = scene;
+    if (!gridSize) return;
+    const rulerInterval = getRulerInterval(frame.zoom);
+    ctx.strokeStyle = getPalette().GRID.RULER_LINE;
+    ctx.lineWidth = 2;
+
+    for (let x = rulerInterval; x < gridSize.width; x += rulerInterval) {
+      const worldX = x * CELL_SIZE;
+      ctx.beginPath();
+      ctx.moveTo(worldX, 0);
+      ctx.lineTo(worldX, gridSize.height * CELL_SIZE);
+      ctx.stroke();
+    }
+
+    for (let y = rulerInterval; y < gridSize.height; y += rulerInterval) {
+      const worldY = y * CELL_SIZE;
+      ctx.beginPath();
+      ctx.moveTo(0, worldY);
+      ctx.lineTo(gridSize.width * CELL_SIZE, worldY);
+      ctx.stroke();
+    }
+  },
+});
+
+// Ruler labels along the screen edges, and MASSIVESWEEPER in the centre of the grid
+registerLayer({
+  id: "labels",
+  order: RENDER_LAYER_ORDER.LABELS,
+  draw: ({ ctx, frame, scene }) => {
+    const { offset, zoom, canvasSize } = frame;
+    const { gridSize } = scene;
+    const { GRID } = getPalette();
+
+    const gridCenterX = gridSize ? (gridSize.width * CELL_SIZE) / 2 : DEFAULT_GRID_CENTER.X;
+    const gridCenterY = gridSize ? (gridSize.height * CELL_SIZE) / 2 : DEFAULT_GRID_CENTER.Y;
+    ctx.font = `bold 48px ${FONTS.FAMILY.PRIMARY}`;
+    ctx.fillStyle = GRID.TITLE;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText("MASSIVESWEEPER", gridCenterX, gridCenterY);
+
+    if (!gridSize) return;
+    const rulerInterval = getRulerInterval(zoom);
+    setScreenTransform(ctx, frame);
+    ctx.fillStyle = GRID.RULER_LABEL;
+    ctx.font = `${getResponsiveFontSize(16, zoom)}px ${FONTS.FAMILY.MONOSPACE}`;
+
+    for (let x = rulerInterval; x < gridSize.width; x += rulerInterval) {
+      const screenX = x * CELL_SIZE * zoom + offset.x;
+      if (screenX >= -50 && screenX <= canvasSize.width + 50) {
+        ctx.fillText(x.toString(), screenX, 25);
+      }
+    }
+
+    for (let y = rulerInterval; y < gridSize.height; y += rulerInterval) {
+      const screenY = y * CELL_SIZE * zoom + offset.y;
+      if (screenY >= -50 && screenY <= canvasSize.height + 50) {
+        ctx.fillText(y.toString(), 25, screenY);
+      }
+    }
+  },
+});
+
+// Other players' cursors, with name labels
+registerLayer({
+  id: "players",
+  order: RENDER_LAYER_ORDER.PLAYERS,
+  draw: ({ ctx, frame, scene }) => {
+    const { canvasSize } = frame;
+    const size = REMOTE_CURSOR.SIZE;
+    const padding = REMOTE_CURSOR.LABEL_PADDING;
+    const margin = REMOTE_CURSOR.VIEWPORT_MARGIN;
+    setScreenTransform(ctx, frame);
+    ctx.font = REMOTE_CURSOR.LABEL_FONT;
+    ctx.textBaseline = "top";
+
+    for (const cursor of scene.cursors) {
+      const { x: screenX, y: screenY } = getCursorRect(frame, cursor);
+      // Only cursors inside the viewport are drawn
+      if (screenX < -margin || screenY < -margin ||
+          screenX > canvasSize.width + margin || screenY > canvasSize.height + margin) {
+        continue;
+      }
+      const tipX = screenX + 1;
+      const tipY = screenY + 1;
+      ctx.globalAlpha = cursor.opacity;
+
+      // Arrow
+      ctx.beginPath();
+      ctx.moveTo(tipX, tipY);
+      ctx.lineTo(tipX, tipY + size);
+      ctx.lineTo(tipX + size * 0.3, tipY + size * 0.75);
+      ctx.lineTo(tipX + size * 0.7, tipY + size * 0.7);
+      ctx.closePath();
+      ctx.fillStyle = cursor.color;
+      ctx.fill();
+      ctx.strokeStyle = COLORS.UI.TEXT.WHITE;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+
+      // Name label
+      const label = cursor.username || cursor.userId;
+      const labelX = tipX + size * 0.6;
+      const labelY = tipY + size;
+      const textWidth = Math.min(ctx.measureText(label).width, REMOTE_CURSOR.LABEL_MAX_WIDTH);
+      ctx.fillStyle = cursor.color;
+      ctx.fillRect(labelX, labelY, textWidth + padding * 2, 11 + padding * 2);
+      ctx.fillStyle = COLORS.UI.TEXT.WHITE;
+      ctx.fillText(label, labelX + padding, labelY + padding, REMOTE_CURSOR.LABEL_MAX_WIDTH);
+    }
+  },
+});
+
+// Game and player stats
+registerLayer({
+  id: "overlays",
+  order: RENDER_LAYER_ORDER.OVERLAYS,
+  draw: ({ ctx, frame, scene }) => {
+    const { hoverCell } = frame;
+    const { backendStats, playerStats } = scene;
+    const { OVERLAY } = getPalette();
+    setScreenTransform(ctx, frame);
+    ctx.fillStyle = OVERLAY.BACKGROUND;
+    ctx.fillRect(STATS_OVERLAY_RECT.x, STATS_OVERLAY_RECT.y, STATS_OVERLAY_RECT.width, STATS_OVERLAY_RECT.height);
+    ctx.fillStyle = OVERLAY.TEXT;
+    ctx.font = `16px ${FONTS.FAMILY.MONOSPACE}`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    ctx.fillText(`MassiveSweeper`, SPACING.BASE, SPACING.BASE);
+    ctx.fillText(`🧹 Active sweepers: ${backendStats.activeUsers}`, SPACING.BASE, 30);
+    ctx.fillText(`🧹 Total sweepers: ${backendStats.uniqueUsersEver}`, SPACING.BASE, 50);
+    ctx.fillText(`🗺️ Revealed: ${backendStats.revealed} (${backendStats.revealedPercent.toFixed(2)}%)`, SPACING.BASE, 70);
+    ctx.fillText(`🚩 Flags planted: ${backendStats.flagged}`, SPACING.BASE, 90);
+    ctx.fillText(`💥 Mines exploded: ${backendStats.bombsExploded}`, SPACING.BASE, 110);
+
+    if (hoverCell) {
+      ctx.fillText(`🗺️ You: (${hoverCell.x}, ${hoverCell.y})`, SPACING.BASE, 130);
+    }
+
+    ctx.fillText(`Your Stats:`, SPACING.BASE, 150);
+    ctx.fillText(`🧹 Cells: ${playerStats.cellsCleared.toLocaleString()}`, SPACING.BASE, 170);
+    ctx.fillText(`🚩 Flags: ${playerStats.flagsPlaced.toLocaleString()}`, SPACING.BASE, 190);
+  },
+});
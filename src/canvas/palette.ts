@@ -0,0 +1,31 @@
+/**
+ * Canvas Palette
+ *
+ * Holds the colors the grid is drawn with. The theme store sets it on the main
+ * thread and the render worker sets it from its messages, so drawing code reads
+ * the active palette without depending on either.
+ */
+
+import { THEMES, THEME_CONFIG, type ThemePalette } from "../constants/ui";
+import { clearChunkBitmaps } from "./chunkBitmapCache";
+
+let palette: ThemePalette = THEMES[THEME_CONFIG.DEFAULT].PALETTE;
+
+/**
+ * Get the palette the grid is currently drawn with
+ * @returns Active palette
+ */
+export function getPalette(): ThemePalette {
+  return palette;
+}
+
+/**
+ * Switch the palette; callers redraw the canvas afterwards
+ * @param next - Palette to draw with
+ */
+export function setPalette(next: ThemePalette): void {
+  if (next === palette) return;
+  palette = next;
+  // Cached chunk bitmaps were drawn in the old colors
+  clearChunkBitmaps();
+}
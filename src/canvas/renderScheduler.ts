@@ -0,0 +1,74 @@
+/**
+ * Render Scheduler
+ *
+ * Coalesces redraw requests into at most one draw per animation frame. Callers
+ * invalidate either the whole canvas or screen regions; regions requested
+ * before the frame runs are drawn together, and any full invalidation wins.
+ */
+
+import { MAX_DIRTY_REGIONS } from "../constants/game";
+
+/** Screen-space rectangle in canvas pixels */
+export interface DirtyRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderScheduler {
+  invalidate: () => void; // Redraw the whole canvas on the next frame
+  invalidateRegion: (rect: DirtyRect) => void; // Redraw part of the canvas on the next frame
+  cancel: () => void; // Drop the pending frame, e.g. on unmount
+}
+
+/**
+ * Create a scheduler for a draw function
+ * @param draw - Draws the frame; receives the dirty regions, or null to redraw everything
+ * @returns Scheduler
+ */
+export function createRenderScheduler(draw: (dirty: DirtyRect[] | null) => void): RenderScheduler {
+  let frame: number | null = null;
+  let fullRedraw = false;
+  let regions: DirtyRect[] = [];
+
+  const flush = () => {
+    frame = null;
+    const dirty = fullRedraw ? null : regions;
+    fullRedraw = false;
+    regions = [];
+    draw(dirty);
+  };
+
+  const schedule = () => {
+    if (frame === null) frame = requestAnimationFrame(flush);
+  };
+
+  return {
+    invalidate: () => {
+      fullRedraw = true;
+      regions = [];
+      schedule();
+    },
+
+    invalidateRegion: (rect) => {
+      if (rect.width <= 0 || rect.height <= 0) return;
+      if (!fullRedraw) {
+        regions.push(rect);
+        // Past a handful of regions, clipping costs more than it saves
+        if (regions.length > MAX_DIRTY_REGIONS) {
+          fullRedraw = true;
+          regions = [];
+        }
+      }
+      schedule();
+    },
+
+    cancel: () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      fullRedraw = false;
+      regions = [];
+    },
+  };
+}
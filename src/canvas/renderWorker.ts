@@ -0,0 +1,143 @@
+/**
+ * Render Worker
+ *
+ * Draws the grid to a canvas transferred from the main thread, so drawing
+ * never holds up input. The main thread mirrors loaded chunks, the board
+ * overview and the theme palette into the worker as they change and asks for
+ * frames; each frame is acknowledged with "drawn" so requests never pile up
+ * behind a slow draw.
+ */
+
+import type { Cell, Chunk, ChunkSummary, DisplayedChunk } from "../hooks/useChunkedGridStore";
+import { getChunkCell, pickChunkSummary } from "../network/chunkCodec";
+import { drawFrame, type FrameState, type RenderScene } from "./gridRenderer";
+import type { DirtyRect } from "./renderScheduler";
+import { setPalette } from "./palette";
+import type { ThemePalette } from "../constants/ui";
+import { worldToChunk, worldToLocal } from "../constants/game";
+import { createChunkKey } from "../constants/socket";
+
+/** Messages from the main thread */
+export type RenderWorkerMessage =
+  | { type: "init"; canvas: OffscreenCanvas }
+  | { type: "chunks"; chunks: Record<string, DisplayedChunk | null>; reset: boolean } // Null for evicted chunks
+  | { type: "overview"; summaries: Record<string, ChunkSummary> }
+  | { type: "subscriptions"; keys: string[] } // Chunks the server sends cell updates for
+  | { type: "palette"; palette: ThemePalette }
+  | {
+      type: "draw";
+      frame: FrameState;
+      dirty: DirtyRect[] | null;
+      scene: Pick<RenderScene, "gridSize" | "cursors" | "backendStats" | "playerStats">;
+    };
+
+/** Messages to the main thread; every draw is answered with one of them */
+export type RenderWorkerResponse =
+  | { type: "drawn" }
+  | { type: "error"; message: string }; // The draw threw; the worker stays usable
+
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let loadedChunks: Record<string, Chunk> = {};
+let pendingCells = new Map<string, Set<number>>(); // Chunk key -> indices of cells awaiting a reveal
+let summaries: Record<string, ChunkSummary> = {};
+let subscribedChunks = new Set<string>();
+let needsFullRedraw = false; // Set after a failed frame, whose pixels and state can't be trusted
+
+/**
+ * Read a mirrored cell as displayed
+ * @param worldX - World X coordinate
+ * @param worldY - World Y coordinate
+ * @returns Cell, or null if its chunk is not loaded
+ */
+function getCell(worldX: number, worldY: number): Cell | null {
+  const key = createChunkKey(worldToChunk(worldX), worldToChunk(worldY));
+  const chunk = loadedChunks[key];
+  if (!chunk) return null;
+  const x = worldToLocal(worldX);
+  const y = worldToLocal(worldY);
+  const cell = getChunkCell(chunk, x, y);
+  if (cell && pendingCells.get(key)?.has(y * chunk.width + x)) cell.pending = true;
+  return cell;
+}
+
+/**
+ * Summarise a chunk from its mirrored cells while it is subscribed, otherwise from the overview
+ * @param key - Chunk key
+ * @param chunk - Loaded chunk, if any
+ * @returns Chunk summary, or null if nothing is known about the chunk
+ */
+function getSummary(key: string, chunk: Chunk | undefined): ChunkSummary | null {
+  return pickChunkSummary(chunk, subscribedChunks.has(key), summaries[key]);
+}
+
+self.addEventListener("message", (event: MessageEvent<RenderWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "init":
+      ctx = message.canvas.getContext("2d");
+      break;
+
+    case "chunks":
+      if (message.reset) {
+        loadedChunks = {};
+        pendingCells = new Map();
+      }
+      for (const [key, displayed] of Object.entries(message.chunks)) {
+        if (displayed) {
+          loadedChunks[key] = displayed.chunk;
+          pendingCells.set(key, new Set(displayed.pending));
+        } else {
+          delete loadedChunks[key];
+          pendingCells.delete(key);
+        }
+      }
+      break;
+
+    case "overview":
+      summaries = message.summaries;
+      break;
+
+    case "subscriptions":
+      subscribedChunks = new Set(message.keys);
+      break;
+
+    case "palette":
+      setPalette(message.palette);
+      break;
+
+    case "draw": {
+      // Always answer, or the main thread would wait for this frame forever
+      let response: RenderWorkerResponse = { type: "drawn" };
+      try {
+        if (ctx) {
+          const { canvas } = ctx;
+          const { canvasSize, pixelRatio } = message.frame;
+          const width = Math.round(canvasSize.width * pixelRatio);
+          const height = Math.round(canvasSize.height * pixelRatio);
+          // Resizing clears the canvas, but a resize always comes with a full redraw
+          if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+          }
+          const dirty = needsFullRedraw ? null : message.dirty;
+          needsFullRedraw = false;
+          drawFrame(ctx, message.frame, { ...message.scene, loadedChunks, getCell, getSummary }, dirty);
+          // Every frame should leave the context as it found it
+          if (import.meta.env.DEV && !ctx.getTransform().isIdentity) {
+            console.warn("[render] A frame left a transform on the worker's canvas");
+          }
+        }
+      } catch (error) {
+        response = { type: "error", message: error instanceof Error ? error.message : String(error) };
+        if (ctx) {
+          // Setting the size resets every save, clip and transform, so the next frame starts clean and redraws in full
+          ctx.canvas.width = ctx.canvas.width;
+          needsFullRedraw = true;
+        }
+      } finally {
+        self.postMessage(response);
+      }
+      break;
+    }
+  }
+});
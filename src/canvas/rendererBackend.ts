@@ -0,0 +1,209 @@
+/**
+ * Renderer Backends
+ *
+ * Decides where the grid canvas is drawn. Where the browser can transfer a
+ * canvas to a Web Worker, frames are drawn by the render worker, fed with
+ * copies of the loaded chunks and the theme palette; otherwise they are drawn on the main thread
+ * straight from the stores.
+ */
+
+import { useChunkedGridStore, getDisplayedChunk, type DisplayedChunk } from "../hooks/useChunkedGridStore";
+import { useGlobalStatsStore } from "../hooks/useGlobalStatsStore";
+import { useOverviewStore, getChunkSummary } from "../hooks/useOverviewStore";
+import { useCursorStore, getCursorOpacity } from "../hooks/useCursorStore";
+import { usePlayerStats } from "../hooks/usePlayerStats";
+import { useThemeStore } from "../hooks/useThemeStore";
+import { drawFrame, type DrawnCursor, type FrameState, type RenderScene } from "./gridRenderer";
+import type { DirtyRect } from "./renderScheduler";
+import type { RenderWorkerMessage, RenderWorkerResponse } from "./renderWorker";
+import { MAX_DIRTY_REGIONS, USE_RENDER_WORKER } from "../constants/game";
+import { THEMES } from "../constants/ui";
+
+export interface RendererBackend {
+  draw: (frame: FrameState, dirty: DirtyRect[] | null) => void; // Dirty regions, or null for the whole canvas
+  dispose: () => void;
+}
+
+// A canvas can only be transferred once, so its worker outlives remounts of the component
+const renderWorkers = new WeakMap<HTMLCanvasElement, Worker>();
+let hasWorkerFailed = false; // After a worker crash, new canvases are drawn on the main thread
+
+/**
+ * Check whether a canvas can be drawn by the render worker
+ * @param canvas - Grid canvas, if already mounted
+ * @returns True if workers and OffscreenCanvas are available (or the canvas already has a worker)
+ */
+export function canRenderInWorker(canvas?: HTMLCanvasElement | null): boolean {
+  if (canvas && renderWorkers.has(canvas)) return true;
+  return !hasWorkerFailed &&
+         USE_RENDER_WORKER &&
+         typeof Worker !== "undefined" &&
+         typeof OffscreenCanvas !== "undefined" &&
+         typeof HTMLCanvasElement.prototype.transferControlToOffscreen === "function";
+}
+
+/**
+ * Read other players' cursors as they should be drawn now
+ * @returns Cursors with their current opacity
+ */
+function getDrawnCursors(): DrawnCursor[] {
+  const now = Date.now();
+  return Object.values(useCursorStore.getState().cursors).map((cursor) => ({
+    ...cursor,
+    opacity: getCursorOpacity(cursor, now),
+  }));
+}
+
+/**
+ * Read the parts of the scene that live in the stores
+ * @returns Scene for the current store state
+ */
+function getStoreScene(): RenderScene {
+  const { loadedChunks, gridSize, getCell } = useChunkedGridStore.getState();
+  return {
+    gridSize,
+    loadedChunks,
+    getCell,
+    getSummary: getChunkSummary,
+    cursors: getDrawnCursors(),
+    backendStats: useGlobalStatsStore.getState().stats,
+    playerStats: usePlayerStats.getState().stats,
+  };
+}
+
+/**
+ * Draw on the main thread
+ * @param canvas - Grid canvas
+ * @returns Backend
+ */
+function createMainThreadBackend(canvas: HTMLCanvasElement): RendererBackend {
+  return {
+    draw: (frame, dirty) => {
+      const ctx = canvas.getContext("2d");
+      if (ctx) drawFrame(ctx, frame, getStoreScene(), dirty);
+    },
+    dispose: () => {},
+  };
+}
+
+/**
+ * Get the render worker drawing a canvas, transferring the canvas on first use
+ * @param canvas - Grid canvas
+ * @returns Render worker
+ */
+function getRenderWorker(canvas: HTMLCanvasElement): Worker {
+  let worker = renderWorkers.get(canvas);
+  if (!worker) {
+    worker = new Worker(new URL("./renderWorker.ts", import.meta.url), { type: "module" });
+    const offscreen = canvas.transferControlToOffscreen();
+    const init: RenderWorkerMessage = { type: "init", canvas: offscreen };
+    worker.postMessage(init, [offscreen]);
+    renderWorkers.set(canvas, worker);
+  }
+  return worker;
+}
+
+/**
+ * Draw in the render worker, mirroring chunk, overview and theme changes into it
+ * @param canvas - Grid canvas
+ * @param onFailure - Called if the worker crashes; the canvas cannot be drawn any more
+ * @returns Backend
+ */
+function createWorkerBackend(canvas: HTMLCanvasElement, onFailure: () => void): RendererBackend {
+  const worker = getRenderWorker(canvas);
+  const post = (message: RenderWorkerMessage) => worker.postMessage(message);
+  let isDrawing = false;
+  let queued: { frame: FrameState; dirty: DirtyRect[] | null } | null = null;
+
+  const sendChunks = (keys: string[], reset: boolean) => {
+    const chunks: Record<string, DisplayedChunk | null> = {};
+    for (const key of keys) chunks[key] = getDisplayedChunk(key);
+    post({ type: "chunks", chunks, reset });
+  };
+
+  const sendFrame = (frame: FrameState, dirty: DirtyRect[] | null) => {
+    isDrawing = true;
+    const { gridSize } = useChunkedGridStore.getState();
+    const backendStats = useGlobalStatsStore.getState().stats;
+    const playerStats = usePlayerStats.getState().stats;
+    post({ type: "draw", frame, dirty, scene: { gridSize, cursors: getDrawnCursors(), backendStats, playerStats } });
+  };
+
+  const handleMessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    // A failed draw is still answered, so one bad frame does not stop drawing
+    if (event.data.type === "error") console.error(`[render] Frame failed: ${event.data.message}`);
+    isDrawing = false;
+    if (!queued) return;
+    const next = queued;
+    queued = null;
+    sendFrame(next.frame, next.dirty);
+  };
+
+  // Start from a full copy, since the worker may have mirrored an earlier mount
+  sendChunks(Object.keys(useChunkedGridStore.getState().loadedChunks), true);
+  post({ type: "overview", summaries: useOverviewStore.getState().summaries });
+  post({ type: "subscriptions", keys: [...useChunkedGridStore.getState().subscribedChunks] });
+  post({ type: "palette", palette: THEMES[useThemeStore.getState().themeId].PALETTE });
+  worker.addEventListener("message", handleMessage);
+
+  const unsubscribers = [
+    useChunkedGridStore.subscribe((state, previous) => {
+      if (state.subscribedChunks !== previous.subscribedChunks) {
+        post({ type: "subscriptions", keys: [...state.subscribedChunks] });
+      }
+      if (state.loadedChunks === previous.loadedChunks) return;
+      // Only chunks that were added, changed or evicted are copied over
+      const keys = new Set([...Object.keys(state.loadedChunks), ...Object.keys(previous.loadedChunks)]);
+      const changed = [...keys].filter((key) => state.loadedChunks[key] !== previous.loadedChunks[key]);
+      sendChunks(changed, false);
+    }),
+    useOverviewStore.subscribe((state, previous) => {
+      if (state.summaries !== previous.summaries) post({ type: "overview", summaries: state.summaries });
+    }),
+    useThemeStore.subscribe((state, previous) => {
+      if (state.themeId !== previous.themeId) post({ type: "palette", palette: THEMES[state.themeId].PALETTE });
+    }),
+  ];
+
+  const dispose = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    worker.removeEventListener("message", handleMessage);
+    worker.removeEventListener("error", handleError);
+    queued = null;
+  };
+
+  // An uncaught error leaves the worker unusable, and its canvas with it
+  const handleError = (event: ErrorEvent) => {
+    console.error(`[render] Render worker failed: ${event.message}`);
+    dispose();
+    isDrawing = false;
+    hasWorkerFailed = true;
+    renderWorkers.delete(canvas);
+    worker.terminate();
+    onFailure();
+  };
+  worker.addEventListener("error", handleError);
+
+  return {
+    draw: (frame, dirty) => {
+      if (!isDrawing) {
+        sendFrame(frame, dirty);
+        return;
+      }
+      // Hold the frame until the worker catches up, merging it with any frame already waiting
+      const merged = queued && queued.dirty && dirty ? [...queued.dirty, ...dirty] : queued ? null : dirty;
+      queued = { frame, dirty: merged && merged.length <= MAX_DIRTY_REGIONS ? merged : null };
+    },
+    dispose,
+  };
+}
+
+/**
+ * Create the backend drawing a grid canvas
+ * @param canvas - Grid canvas
+ * @param onWorkerFailure - Called if the render worker crashes; draw to a new canvas afterwards
+ * @returns Worker backend where supported, otherwise the main-thread backend
+ */
+export function createRendererBackend(canvas: HTMLCanvasElement, onWorkerFailure: () => void): RendererBackend {
+  return canRenderInWorker(canvas) ? createWorkerBackend(canvas, onWorkerFailure) : createMainThreadBackend(canvas);
+}
@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+import { useChunkedGridStore } from '../hooks/useChunkedGridStore';
+import { SOCKET_CONFIG } from '../constants/socket';
+import { COLORS, SPACING, Z_INDEX, CURSORS } from '../constants/ui';
+
+const ActionErrorToast: React.FC = () => {
+  const actionError = useChunkedGridStore((state) => state.actionError);
+  const dismissActionError = useChunkedGridStore((state) => state.dismissActionError);
+
+  // Hide the error after a while; a newer error restarts the timer
+  useEffect(() => {
+    if (!actionError) return;
+    const timer = setTimeout(dismissActionError, SOCKET_CONFIG.ACTION_ERROR_DURATION);
+    return () => clearTimeout(timer);
+  }, [actionError, dismissActionError]);
+
+  if (!actionError) return null;
+
+  return (
+    <div
+      role="alert"
+      onClick={dismissActionError}
+      style={{
+        position: 'fixed',
+        bottom: SPACING.BASE * 2,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: Z_INDEX.OVERLAY,
+        padding: '8px 16px',
+        borderRadius: 4,
+        background: COLORS.UI.ERROR,
+        color: COLORS.UI.TEXT.WHITE,
+        fontSize: 14,
+        fontWeight: 'bold',
+        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+        cursor: CURSORS.POINTER,
+      }}
+    >
+      ⚠️ {actionError.message}
+    </div>
+  );
+};
+
+export default ActionErrorToast;
@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useChatStore } from '../hooks/useChatStore';
+import { useNavigationStore } from '../hooks/useNavigationStore';
+import { useIdentityStore } from '../hooks/useIdentityStore';
+import { parseCoordinateLinks } from '../navigation/coordinateLinks';
+import { CHAT_CONFIG } from '../constants/socket';
+import { COLORS, SPACING, Z_INDEX, CURSORS, DIMENSIONS, isInteractiveTarget } from '../constants/ui';
+
+/**
+ * Format a message timestamp for display
+ * @param timestamp - Milliseconds since epoch
+ * @returns Local hours and minutes
+ */
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Describe who is typing
+ * @param names - Usernames of players typing
+ * @returns Indicator text, or null if nobody is typing
+ */
+function describeTyping(names: string[]): string | null {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} players are typing…`;
+}
+
+const ChatPanel: React.FC = () => {
+  const messages = useChatStore((state) => state.messages);
+  const typingPlayers = useChatStore((state) => state.typingPlayers);
+  const isOpen = useChatStore((state) => state.isOpen);
+  const unreadCount = useChatStore((state) => state.unreadCount);
+  const setOpen = useChatStore((state) => state.setOpen);
+  const sendMessage = useChatStore((state) => state.sendMessage);
+  const setTyping = useChatStore((state) => state.setTyping);
+  const navigateTo = useNavigationStore((state) => state.navigateTo);
+  const username = useIdentityStore((state) => state.identity.username);
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Enter opens the chat from anywhere on the page, except on controls that Enter activates
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Enter' || isInteractiveTarget(e.target)) return;
+      e.preventDefault();
+      setOpen(true);
+      requestAnimationFrame(() => inputRef.current?.focus());
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [setOpen]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages, isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (sendMessage(draft)) {
+      setDraft('');
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(e.target.value);
+    setTyping(e.target.value.length > 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.currentTarget.blur();
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        style={{
+          position: 'fixed',
+          bottom: SPACING.BASE,
+          right: SPACING.BASE,
+          zIndex: Z_INDEX.CHAT,
+          padding: '8px 14px',
+          borderRadius: 20,
+          border: 'none',
+          background: COLORS.BRAND.PRIMARY,
+          color: COLORS.UI.TEXT.WHITE,
+          fontSize: 14,
+          fontWeight: 'bold',
+          cursor: CURSORS.POINTER,
+          boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+        }}
+        title="Open chat (Enter)"
+      >
+        💬 Chat{unreadCount > 0 ? ` (${unreadCount})` : ''}
+      </button>
+    );
+  }
+
+  const typingText = describeTyping(Object.values(typingPlayers).map((name) => name || 'Someone'));
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        bottom: SPACING.BASE,
+        right: SPACING.BASE,
+        zIndex: Z_INDEX.CHAT,
+        width: 300,
+        height: 340,
+        display: 'flex',
+        flexDirection: 'column',
+        background: COLORS.BACKGROUND.OVERLAY,
+        borderRadius: DIMENSIONS.PANEL.BORDER_RADIUS,
+        boxShadow: DIMENSIONS.PANEL.SHADOW,
+        fontSize: 13,
+        color: COLORS.UI.TEXT.PRIMARY,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: `${SPACING.SMALL}px ${SPACING.BASE}px`,
+          borderBottom: `1px solid ${COLORS.UI.BORDER}`,
+          fontWeight: 'bold',
+        }}
+      >
+        <span>
+          💬 Chat{' '}
+          <span style={{ fontWeight: 'normal', color: COLORS.UI.TEXT.LIGHT }}>as {username}</span>
+        </span>
+        <button
+          onClick={() => setOpen(false)}
+          style={{
+            border: 'none',
+            background: 'transparent',
+            fontSize: 16,
+            cursor: CURSORS.POINTER,
+            color: COLORS.UI.TEXT.SECONDARY,
+          }}
+          title="Collapse chat"
+        >
+          ▾
+        </button>
+      </div>
+
+      <div ref={listRef} style={{ flex: 1, overflowY: 'auto', padding: SPACING.BASE }}>
+        {messages.length === 0 && (
+          <div style={{ color: COLORS.UI.TEXT.LIGHT }}>No messages yet. Say hi!</div>
+        )}
+        {messages.map((message) => (
+          <div key={message.id} style={{ marginBottom: SPACING.SMALL, wordBreak: 'break-word' }}>
+            <span style={{ color: COLORS.UI.TEXT.LIGHT, marginRight: SPACING.SMALL }}>
+              {formatTime(message.timestamp)}
+            </span>
+            <strong>{message.username || 'Anonymous'}:</strong>{' '}
+            {parseCoordinateLinks(message.message).map((segment, index) =>
+              segment.type === 'link' ? (
+                <button
+                  key={index}
+                  onClick={() => navigateTo(segment.link.x, segment.link.y)}
+                  style={{
+                    padding: 0,
+                    border: 'none',
+                    background: 'transparent',
+                    color: COLORS.UI.INFO,
+                    textDecoration: 'underline',
+                    font: 'inherit',
+                    cursor: CURSORS.POINTER,
+                  }}
+                  title={`Go to ${segment.link.x},${segment.link.y}`}
+                >
+                  {segment.text}
+                </button>
+              ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+              )
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ minHeight: 18, padding: `0 ${SPACING.BASE}px`, color: COLORS.UI.TEXT.LIGHT, fontStyle: 'italic' }}>
+        {typingText}
+      </div>
+
+      <form onSubmit={handleSubmit} style={{ display: 'flex', gap: SPACING.SMALL, padding: SPACING.BASE }}>
+        <input
+          ref={inputRef}
+          value={draft}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setTyping(false)}
+          maxLength={CHAT_CONFIG.MAX_MESSAGE_LENGTH}
+          placeholder="Type a message…"
+          style={{
+            flex: 1,
+            padding: '6px 8px',
+            borderRadius: 4,
+            border: `1px solid ${COLORS.UI.BORDER}`,
+            fontSize: 13,
+          }}
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 4,
+            border: 'none',
+            background: COLORS.BRAND.PRIMARY,
+            color: COLORS.UI.TEXT.WHITE,
+            cursor: draft.trim() ? CURSORS.POINTER : CURSORS.NOT_ALLOWED,
+          }}
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { useConnectionStore } from '../hooks/useConnectionStore';
+import { retryConnection } from '../network/connection';
+import { ERROR_MESSAGES, SOCKET_CONFIG } from '../constants/socket';
+import { COLORS, SPACING, Z_INDEX, CURSORS } from '../constants/ui';
+
+const ConnectionBanner: React.FC = () => {
+  const status = useConnectionStore((state) => state.status);
+  const hasConnected = useConnectionStore((state) => state.hasConnected);
+  const reconnectAttempt = useConnectionStore((state) => state.reconnectAttempt);
+
+  // Nothing to report while connected or during the very first connection attempt
+  if (status === 'connected' || (status === 'connecting' && !hasConnected)) {
+    return null;
+  }
+
+  const failed = status === 'failed';
+  let message: string;
+  if (failed) {
+    message = hasConnected ? ERROR_MESSAGES.RECONNECTION_FAILED : ERROR_MESSAGES.CONNECTION_FAILED;
+  } else {
+    message = hasConnected ? ERROR_MESSAGES.CONNECTION_LOST : ERROR_MESSAGES.CONNECTION_FAILED;
+  }
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: 'fixed',
+        top: SPACING.BASE,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: Z_INDEX.OVERLAY,
+        display: 'flex',
+        alignItems: 'center',
+        gap: SPACING.BASE,
+        padding: '8px 16px',
+        borderRadius: 4,
+        background: failed ? COLORS.UI.ERROR : COLORS.UI.WARNING,
+        color: COLORS.UI.TEXT.WHITE,
+        fontSize: 14,
+        fontWeight: 'bold',
+        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+      }}
+    >
+      <span>🔌 {message}</span>
+      {!failed && reconnectAttempt > 0 && (
+        <span style={{ fontWeight: 'normal' }}>
+          Reconnecting… ({reconnectAttempt}/{SOCKET_CONFIG.RECONNECTION_ATTEMPTS})
+        </span>
+      )}
+      {failed && (
+        <button
+          onClick={retryConnection}
+          style={{
+            fontSize: 13,
+            padding: '4px 10px',
+            borderRadius: 4,
+            border: `1px solid ${COLORS.UI.TEXT.WHITE}`,
+            background: 'transparent',
+            color: COLORS.UI.TEXT.WHITE,
+            cursor: CURSORS.POINTER,
+          }}
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionBanner;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useIdentityStore } from '../hooks/useIdentityStore';
+import { usePlayerStats } from '../hooks/usePlayerStats';
+import { getTokenPreview } from '../network/identity';
+import ProfileEditor from './ProfileEditor';
+import { COLORS, SPACING, Z_INDEX, CURSORS, DIMENSIONS } from '../constants/ui';
+
+const menuButtonStyle: React.CSSProperties = {
+  fontSize: 13,
+  padding: '6px 10px',
+  borderRadius: 4,
+  border: `1px solid ${COLORS.UI.BORDER}`,
+  background: COLORS.BACKGROUND.SECONDARY,
+  color: COLORS.UI.TEXT.PRIMARY,
+  cursor: CURSORS.POINTER,
+};
+
+const IdentityMenu: React.FC = () => {
+  const identity = useIdentityStore((state) => state.identity);
+  const rotateToken = useIdentityStore((state) => state.rotateToken);
+  const resetIdentity = useIdentityStore((state) => state.resetIdentity);
+  const resetStats = usePlayerStats((state) => state.resetStats);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleRotate = () => {
+    rotateToken();
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Start over as a new sweeper? Your history will no longer be linked to this device.')) {
+      return;
+    }
+    resetIdentity();
+    resetStats();
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          position: 'fixed',
+          top: SPACING.BASE,
+          right: SPACING.BASE + 50,
+          width: '40px',
+          height: '40px',
+          borderRadius: '50%',
+          border: 'none',
+          background: COLORS.UI.SHADOW,
+          color: COLORS.UI.TEXT.WHITE,
+          fontSize: '20px',
+          cursor: CURSORS.POINTER,
+          zIndex: Z_INDEX.HELP,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+          padding: 0,
+          userSelect: 'none',
+        }}
+        title="Your profile"
+      >
+        👤
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'fixed',
+          top: SPACING.BASE + 50,
+          right: SPACING.BASE,
+          zIndex: Z_INDEX.OVERLAY,
+          background: COLORS.BACKGROUND.OVERLAY,
+          border: `1px solid ${COLORS.UI.BORDER}`,
+          borderRadius: DIMENSIONS.PANEL.BORDER_RADIUS,
+          boxShadow: DIMENSIONS.PANEL.SHADOW,
+          padding: '12px 16px',
+          fontSize: 13,
+          color: COLORS.UI.TEXT.PRIMARY,
+          minWidth: '240px',
+          textAlign: 'left',
+        }}>
+          <div style={{ fontWeight: 'bold', marginBottom: '6px', borderBottom: `1px solid ${COLORS.UI.BORDER}`, paddingBottom: '4px' }}>
+            👤 Your Sweeper
+          </div>
+          {/* Remount when the name changes elsewhere (server normalisation, reset) */}
+          <ProfileEditor key={identity.username} />
+          <div>🔑 Token: <code>{getTokenPreview(identity.token)}…</code></div>
+          <div>📅 First visit: {new Date(identity.createdAt).toLocaleDateString()}</div>
+          <div>🔁 Visits: {identity.visitCount.toLocaleString()}</div>
+          <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+            <button
+              style={menuButtonStyle}
+              onClick={handleRotate}
+              title="Get a new token but keep your history"
+            >
+              New token
+            </button>
+            <button
+              style={{ ...menuButtonStyle, color: COLORS.UI.ERROR }}
+              onClick={handleReset}
+              title="Forget this identity and start as a new sweeper"
+            >
+              Reset identity
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default IdentityMenu;
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useChunkedGridStore, type Chunk, type ChunkSummary } from '../hooks/useChunkedGridStore';
+import { useOverviewStore, getChunkSummary } from '../hooks/useOverviewStore';
+import { usePlayersStore } from '../hooks/usePlayersStore';
+import { useThemeStore } from '../hooks/useThemeStore';
+import { drawChunkSummary } from '../canvas/chunkHeatmap';
+import { CELL_SIZE, CHUNK_SIZE, getChunkCount } from '../constants/game';
+import { createChunkKey, parseChunkKey } from '../constants/socket';
+import { COLORS, MINIMAP, SPACING, Z_INDEX, CURSORS, type ThemeId } from '../constants/ui';
+
+interface MinimapProps {
+  offset: { x: number; y: number };
+  zoom: number;
+  canvasSize: { width: number; height: number };
+  onNavigate: (x: number, y: number) => void; // Centre the view on a world cell (fractional)
+}
+
+interface DensityLayer {
+  canvas: HTMLCanvasElement;
+  // What the layer was drawn from
+  gridSize: { width: number; height: number };
+  loadedChunks: Record<string, Chunk>;
+  subscribedChunks: Set<string>;
+  overview: Record<string, ChunkSummary>;
+  themeId: ThemeId;
+}
+
+/**
+ * Create a blank density layer, filled with the minimap background
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns Canvas
+ */
+function createDensityLayer(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = COLORS.MINIMAP.BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+  }
+  return canvas;
+}
+
+/**
+ * Shade one chunk on the density layer, from its loaded cells or the board overview
+ * @param ctx - Density layer context
+ * @param cx - Chunk X coordinate
+ * @param cy - Chunk Y coordinate
+ * @param loadedChunks - Currently loaded chunks
+ * @param chunkPixels - Side of a chunk on the minimap
+ */
+function drawChunkDensity(
+  ctx: CanvasRenderingContext2D,
+  cx: number,
+  cy: number,
+  loadedChunks: Record<string, Chunk>,
+  chunkPixels: number
+): void {
+  const key = createChunkKey(cx, cy);
+  const summary = getChunkSummary(key, loadedChunks[key]);
+  // Snapped to whole pixels so repainting one chunk never touches its neighbours
+  const x = Math.round(cx * chunkPixels);
+  const y = Math.round(cy * chunkPixels);
+  const width = Math.round((cx + 1) * chunkPixels) - x;
+  const height = Math.round((cy + 1) * chunkPixels) - y;
+  // Shading is translucent, so clear what the chunk showed before
+  ctx.clearRect(x, y, width, height);
+  ctx.fillStyle = COLORS.MINIMAP.BACKGROUND;
+  ctx.fillRect(x, y, width, height);
+  if (summary) {
+    drawChunkSummary(ctx, summary, x, y, width, height);
+  } else {
+    ctx.fillStyle = COLORS.MINIMAP.UNKNOWN;
+    ctx.fillRect(x, y, width, height);
+  }
+}
+
+const Minimap: React.FC<MinimapProps> = ({ offset, zoom, canvasSize, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gridSize = useChunkedGridStore((state) => state.gridSize);
+  const loadedChunks = useChunkedGridStore((state) => state.loadedChunks);
+  const subscribedChunks = useChunkedGridStore((state) => state.subscribedChunks);
+  const overview = useOverviewStore((state) => state.summaries);
+  const players = usePlayersStore((state) => state.players);
+  const themeId = useThemeStore((state) => state.themeId); // Chunks are shaded in the theme's colors
+  const [isDragging, setIsDragging] = useState(false);
+  const densityRef = useRef<DensityLayer | null>(null);
+
+  // Screen pixels per world cell on the minimap
+  const scale = gridSize ? MINIMAP.SIZE / Math.max(gridSize.width, gridSize.height) : 0;
+  const width = gridSize ? Math.max(1, Math.round(gridSize.width * scale)) : 0;
+  const height = gridSize ? Math.max(1, Math.round(gridSize.height * scale)) : 0;
+
+  const navigateToEvent = (e: { clientX: number; clientY: number }) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !gridSize || scale === 0) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = Math.max(0, Math.min(gridSize.width, (e.clientX - rect.left) / scale));
+    const y = Math.max(0, Math.min(gridSize.height, (e.clientY - rect.top) / scale));
+    onNavigate(x, y);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !gridSize) return;
+
+    // Chunk density is kept on its own canvas and repainted only where chunks
+    // changed, so panning just blits it
+    const previous = densityRef.current;
+    const isStale = !previous ||
+                    previous.canvas.width !== canvas.width ||
+                    previous.canvas.height !== canvas.height ||
+                    previous.gridSize !== gridSize ||
+                    previous.overview !== overview ||
+                    previous.themeId !== themeId;
+    const density = isStale ? createDensityLayer(canvas.width, canvas.height) : previous.canvas;
+    const densityCtx = density.getContext('2d');
+    if (!densityCtx) return;
+    const chunkPixels = CHUNK_SIZE * scale;
+    if (isStale) {
+      const chunksX = getChunkCount(gridSize.width);
+      const chunksY = getChunkCount(gridSize.height);
+      for (let cy = 0; cy < chunksY; cy++) {
+        for (let cx = 0; cx < chunksX; cx++) {
+          drawChunkDensity(densityCtx, cx, cy, loadedChunks, chunkPixels);
+        }
+      }
+    } else if (previous.loadedChunks !== loadedChunks || previous.subscribedChunks !== subscribedChunks) {
+      // Repaint chunks that changed, or whose summary source moved between cells and overview
+      const keys = new Set([
+        ...Object.keys(loadedChunks),
+        ...Object.keys(previous.loadedChunks),
+        ...subscribedChunks,
+        ...previous.subscribedChunks,
+      ]);
+      for (const key of keys) {
+        if (loadedChunks[key] === previous.loadedChunks[key] &&
+            subscribedChunks.has(key) === previous.subscribedChunks.has(key)) {
+          continue;
+        }
+        const { cx, cy } = parseChunkKey(key);
+        drawChunkDensity(densityCtx, cx, cy, loadedChunks, chunkPixels);
+      }
+    }
+    densityRef.current = { canvas: density, gridSize, loadedChunks, subscribedChunks, overview, themeId };
+
+    ctx.drawImage(density, 0, 0);
+
+    // Other players
+    for (const player of Object.values(players)) {
+      if (player.x === null || player.y === null) continue;
+      ctx.fillStyle = player.color;
+      ctx.beginPath();
+      ctx.arc(player.x * scale, player.y * scale, MINIMAP.PLAYER_DOT, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Our viewport
+    const cellPixels = CELL_SIZE * zoom;
+    const viewX = (-offset.x / cellPixels) * scale;
+    const viewY = (-offset.y / cellPixels) * scale;
+    const viewWidth = Math.max(MINIMAP.MIN_VIEWPORT, (canvasSize.width / cellPixels) * scale);
+    const viewHeight = Math.max(MINIMAP.MIN_VIEWPORT, (canvasSize.height / cellPixels) * scale);
+    ctx.strokeStyle = COLORS.MINIMAP.VIEWPORT;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(viewX + 0.5, viewY + 0.5, viewWidth, viewHeight);
+  }, [gridSize, loadedChunks, subscribedChunks, overview, players, offset, zoom, canvasSize, scale, themeId]);
+
+  // Keep navigating while dragging, even outside the minimap
+  useEffect(() => {
+    if (!isDragging) return;
+    const handleMouseMove = (e: MouseEvent) => navigateToEvent(e);
+    const handleMouseUp = () => setIsDragging(false);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  });
+
+  if (!gridSize) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onMouseDown={(e) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        setIsDragging(true);
+        navigateToEvent(e);
+      }}
+      style={{
+        position: 'fixed',
+        bottom: SPACING.BASE,
+        left: SPACING.BASE,
+        zIndex: Z_INDEX.UI,
+        border: `1px solid ${COLORS.UI.BORDER}`,
+        borderRadius: 4,
+        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+        cursor: isDragging ? CURSORS.GRABBING : CURSORS.POINTER,
+      }}
+      title="Minimap: click or drag to move"
+    />
+  );
+};
+
+export default Minimap;
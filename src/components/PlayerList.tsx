@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { usePlayersStore } from '../hooks/usePlayersStore';
+import { useNavigationStore } from '../hooks/useNavigationStore';
+import { COLORS, SPACING, Z_INDEX, CURSORS, DIMENSIONS } from '../constants/ui';
+
+const rowButtonStyle: React.CSSProperties = {
+  fontSize: 12,
+  padding: '2px 8px',
+  borderRadius: 4,
+  border: `1px solid ${COLORS.UI.BORDER}`,
+  background: COLORS.BACKGROUND.SECONDARY,
+  color: COLORS.UI.TEXT.PRIMARY,
+  cursor: CURSORS.POINTER,
+};
+
+const PlayerList: React.FC = () => {
+  const players = usePlayersStore((state) => state.players);
+  const followingId = usePlayersStore((state) => state.followingId);
+  const follow = usePlayersStore((state) => state.follow);
+  const navigateTo = useNavigationStore((state) => state.navigateTo);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const sortedPlayers = Object.values(players).sort((a, b) => a.username.localeCompare(b.username));
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          position: 'fixed',
+          top: SPACING.BASE,
+          right: SPACING.BASE + 100,
+          height: '40px',
+          minWidth: '40px',
+          padding: '0 10px',
+          borderRadius: 20,
+          border: 'none',
+          background: COLORS.UI.SHADOW,
+          color: COLORS.UI.TEXT.WHITE,
+          fontSize: '16px',
+          cursor: CURSORS.POINTER,
+          zIndex: Z_INDEX.HELP,
+          boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+          userSelect: 'none',
+        }}
+        title="Players online"
+      >
+        👥 {sortedPlayers.length}
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'fixed',
+          top: SPACING.BASE + 50,
+          right: SPACING.BASE + 100,
+          zIndex: Z_INDEX.OVERLAY,
+          background: COLORS.BACKGROUND.OVERLAY,
+          border: `1px solid ${COLORS.UI.BORDER}`,
+          borderRadius: DIMENSIONS.PANEL.BORDER_RADIUS,
+          boxShadow: DIMENSIONS.PANEL.SHADOW,
+          padding: '12px 16px',
+          fontSize: 13,
+          color: COLORS.UI.TEXT.PRIMARY,
+          minWidth: '240px',
+          maxHeight: '50vh',
+          overflowY: 'auto',
+          textAlign: 'left',
+        }}>
+          <div style={{ fontWeight: 'bold', marginBottom: '6px', borderBottom: `1px solid ${COLORS.UI.BORDER}`, paddingBottom: '4px' }}>
+            👥 Players online
+          </div>
+          {sortedPlayers.length === 0 && (
+            <div style={{ color: COLORS.UI.TEXT.LIGHT }}>Nobody else is sweeping right now.</div>
+          )}
+          {sortedPlayers.map((player) => {
+            const located = player.x !== null && player.y !== null;
+            const isFollowed = player.userId === followingId;
+            return (
+              <div
+                key={player.userId}
+                style={{ display: 'flex', alignItems: 'center', gap: SPACING.SMALL, marginBottom: SPACING.SMALL }}
+              >
+                <span style={{ width: 10, height: 10, borderRadius: '50%', background: player.color, flexShrink: 0 }} />
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {player.username || 'Anonymous'}
+                </span>
+                <button
+                  style={rowButtonStyle}
+                  disabled={!located}
+                  onClick={() => {
+                    if (player.x !== null && player.y !== null) {
+                      navigateTo(Math.floor(player.x), Math.floor(player.y));
+                    }
+                  }}
+                  title="Jump to this player's view"
+                >
+                  Go
+                </button>
+                <button
+                  style={{ ...rowButtonStyle, ...(isFollowed ? { background: COLORS.BRAND.ACCENT, color: COLORS.UI.TEXT.WHITE } : {}) }}
+                  disabled={!located && !isFollowed}
+                  onClick={() => follow(isFollowed ? null : player.userId)}
+                  title={isFollowed ? 'Stop following' : "Lock your view to this player's"}
+                >
+                  {isFollowed ? 'Following' : 'Follow'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PlayerList;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useIdentityStore } from '../hooks/useIdentityStore';
+import { changeUsername } from '../network/profile';
+import { generateUsername } from '../network/username';
+import { USERNAME_CONFIG } from '../constants/socket';
+import { COLORS, SPACING, CURSORS } from '../constants/ui';
+
+const ProfileEditor: React.FC = () => {
+  const username = useIdentityStore((state) => state.identity.username);
+  const pendingUsername = useIdentityStore((state) => state.pendingUsername);
+  const usernameError = useIdentityStore((state) => state.usernameError);
+  const [draft, setDraft] = useState(username);
+  const saving = pendingUsername !== null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    changeUsername(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ marginBottom: SPACING.BASE }}>
+      <label htmlFor="profile-username" style={{ display: 'block', fontWeight: 'bold', marginBottom: 4 }}>
+        Username
+      </label>
+      <div style={{ display: 'flex', gap: SPACING.SMALL }}>
+        <input
+          id="profile-username"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={USERNAME_CONFIG.MAX_LENGTH}
+          disabled={saving}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: '5px 8px',
+            borderRadius: 4,
+            border: `1px solid ${usernameError ? COLORS.UI.ERROR : COLORS.UI.BORDER}`,
+            fontSize: 13,
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => setDraft(generateUsername())}
+          disabled={saving}
+          title="Suggest a random name"
+          style={{
+            padding: '4px 8px',
+            borderRadius: 4,
+            border: `1px solid ${COLORS.UI.BORDER}`,
+            background: COLORS.BACKGROUND.SECONDARY,
+            cursor: CURSORS.POINTER,
+          }}
+        >
+          🎲
+        </button>
+        <button
+          type="submit"
+          disabled={saving || draft.trim() === username}
+          style={{
+            padding: '4px 10px',
+            borderRadius: 4,
+            border: 'none',
+            background: COLORS.BRAND.PRIMARY,
+            color: COLORS.UI.TEXT.WHITE,
+            cursor: saving ? CURSORS.NOT_ALLOWED : CURSORS.POINTER,
+          }}
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+      {usernameError && (
+        <div role="alert" style={{ color: COLORS.UI.ERROR, marginTop: 4 }}>
+          {usernameError}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default ProfileEditor;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useThemeStore, type ThemePreference } from '../hooks/useThemeStore';
+import { COLORS, SPACING, Z_INDEX, CURSORS, DIMENSIONS, THEMES, type ThemeId } from '../constants/ui';
+
+const optionButtonStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: SPACING.SMALL,
+  width: '100%',
+  fontSize: 13,
+  padding: '6px 10px',
+  marginBottom: SPACING.SMALL,
+  borderRadius: 4,
+  border: `1px solid ${COLORS.UI.BORDER}`,
+  background: COLORS.BACKGROUND.SECONDARY,
+  color: COLORS.UI.TEXT.PRIMARY,
+  cursor: CURSORS.POINTER,
+  textAlign: 'left',
+};
+
+/**
+ * A few cell colors of a theme, so options can be told apart at a glance
+ * @param themeId - Theme to preview
+ */
+const ThemeSwatch: React.FC<{ themeId: ThemeId }> = ({ themeId }) => {
+  const { CELL, NUMBERS, GAME } = THEMES[themeId].PALETTE;
+  return (
+    <span style={{ display: 'flex', border: `1px solid ${CELL.BORDER}`, flexShrink: 0 }}>
+      {[CELL.UNREVEALED, GAME.FLAG, CELL.REVEALED, NUMBERS[1], NUMBERS[2], NUMBERS[3]].map((color, index) => (
+        <span key={index} style={{ width: 10, height: 14, background: color }} />
+      ))}
+    </span>
+  );
+};
+
+const ThemePicker: React.FC = () => {
+  const preference = useThemeStore((state) => state.preference);
+  const systemTheme = useThemeStore((state) => state.systemTheme);
+  const setPreference = useThemeStore((state) => state.setPreference);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const options: { preference: ThemePreference; label: string; themeId: ThemeId }[] = [
+    { preference: 'system', label: `System (${THEMES[systemTheme].LABEL})`, themeId: systemTheme },
+    ...(Object.keys(THEMES) as ThemeId[]).map((themeId) => ({
+      preference: themeId,
+      label: THEMES[themeId].LABEL,
+      themeId,
+    })),
+  ];
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          position: 'fixed',
+          top: SPACING.BASE,
+          right: SPACING.BASE + 200,
+          width: '40px',
+          height: '40px',
+          borderRadius: '50%',
+          border: 'none',
+          background: COLORS.UI.SHADOW,
+          color: COLORS.UI.TEXT.WHITE,
+          fontSize: '20px',
+          cursor: CURSORS.POINTER,
+          zIndex: Z_INDEX.HELP,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+          padding: 0,
+          userSelect: 'none',
+        }}
+        title="Theme"
+      >
+        🎨
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'fixed',
+          top: SPACING.BASE + 50,
+          right: SPACING.BASE + 200,
+          zIndex: Z_INDEX.OVERLAY,
+          background: COLORS.BACKGROUND.OVERLAY,
+          border: `1px solid ${COLORS.UI.BORDER}`,
+          borderRadius: DIMENSIONS.PANEL.BORDER_RADIUS,
+          boxShadow: DIMENSIONS.PANEL.SHADOW,
+          padding: '12px 16px',
+          fontSize: 13,
+          color: COLORS.UI.TEXT.PRIMARY,
+          minWidth: '220px',
+          textAlign: 'left',
+        }}>
+          <div style={{ fontWeight: 'bold', marginBottom: '6px', borderBottom: `1px solid ${COLORS.UI.BORDER}`, paddingBottom: '4px' }}>
+            🎨 Theme
+          </div>
+          {options.map((option) => {
+            const isSelected = option.preference === preference;
+            return (
+              <button
+                key={option.preference}
+                style={{ ...optionButtonStyle, ...(isSelected ? { background: COLORS.BRAND.ACCENT, color: COLORS.UI.TEXT.WHITE } : {}) }}
+                onClick={() => setPreference(option.preference)}
+                aria-pressed={isSelected}
+              >
+                <ThemeSwatch themeId={option.themeId} />
+                <span>{option.label}</span>
+              </button>
+            );
+          })}
+          <div style={{ color: COLORS.UI.TEXT.LIGHT, fontSize: 12 }}>
+            System follows your device's light or dark setting.
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ThemePicker;
@@ -60,6 +60,7 @@ const TutorialModal: React.FC<TutorialModalProps> = ({ isOpen, onClose, mode })
             <li><strong>Chord click</strong> (left + right click) to reveal adjacent cells if correct flags are placed</li>
             <li><strong>Hold space and drag</strong> to pan around the grid</li>
             <li><strong>Mouse wheel</strong> to zoom in and out</li>
+            <li><strong>Press L</strong> to copy a link to the cell under your mouse; coordinates like 3400,2100 in chat are clickable</li>
             <li><strong>Numbers</strong> show how many mines are adjacent to that cell</li>
             <li><strong>Avoid mines</strong> - that is the minesweeper part</li>            
           </ul>
@@ -30,25 +30,60 @@ export const RULER_INTERVAL = 100;
 
 /** Zoom limits for the viewport */
 export const ZOOM_LIMITS = {
-  MIN: 0.35,
+  MIN: 0.35,           // Furthest zoom for grids that fit on screen before reaching it
   MAX: 4.0,
+  ABSOLUTE_MIN: 0.005, // Hard floor, however large the grid
 } as const;
 
+/** Render strategies, from closest to furthest zoom */
+export const RENDER_LEVELS = {
+  CELLS: 'cells',     // Individual cells
+  BLOCKS: 'blocks',   // Square blocks of cells shaded by how much of them is revealed
+  HEATMAP: 'heatmap', // One shaded rectangle per chunk; no chunks are loaded
+} as const;
+
+export type RenderLevel = typeof RENDER_LEVELS[keyof typeof RENDER_LEVELS];
+
+/** Zoom below which each render level takes over */
+export const RENDER_LEVEL_ZOOM = {
+  BLOCKS: 0.4,
+  HEATMAP: 0.15,
+} as const;
+
+/** Drawing order of the grid renderer's built-in layers; registered layers slot in between */
+export const RENDER_LAYER_ORDER = {
+  CELLS: 100,
+  HIGHLIGHTS: 200,   // Hovered and pressed cells
+  RULERS: 300,
+  LABELS: 400,       // Ruler labels and the title
+  PLAYERS: 500,      // Other players' cursors
+  OVERLAYS: 600,     // Stats overlay
+} as const;
+
+/** Smallest on-screen gap between ruler lines, in pixels */
+export const MIN_RULER_SPACING = 60;
+
 /** Default zoom level */
 export const DEFAULT_ZOOM = 1.0;
 
+/** Below this zoom, chunks without loaded cells are drawn from the board overview */
+export const OVERVIEW_ZOOM_THRESHOLD = 0.7;
+
 /** Zoom intensity for mouse wheel */
 export const ZOOM_INTENSITY = 0.1;
 
-/** Minimum number of chunks visible at maximum zoom */
-export const MIN_VISIBLE_CHUNKS = 4;
-
 /** Buffer zone for preemptive chunk loading (in chunks) */
 export const CHUNK_BUFFER_ZONE = 1;
 
 /** Maximum buffer zone size to prevent excessive loading */
 export const MAX_BUFFER_ZONE = 3;
 
+/** Loaded chunk cache limits (least recently viewed chunks are evicted first) */
+export const CHUNK_CACHE = {
+  MAX_LOADED_CHUNKS: 120,   // Chunk budget before eviction kicks in (~10k cells each)
+  KEEP_DISTANCE: 2,         // Chunks within this many chunks of the view are never evicted
+} as const;
+
 // ============================================================================
 // GAME LOGIC CONSTANTS
 // ============================================================================
@@ -76,12 +111,21 @@ export const CELL_RENDER_STEPS = {
   ZOOM_DEFAULT: 1, // No skipping when zoom >= 0.7
 } as const;
 
+/** Pre-rendered chunk bitmaps, blitted instead of drawing cells every frame */
+export const CHUNK_BITMAP = {
+  TIERS: [0.5, 1, 2],      // Bitmap scales; each zoom uses the smallest tier at or above it
+  MAX_PIXELS: 32_000_000,  // Cache budget across all bitmaps (4 bytes per pixel)
+} as const;
+
+/** Dirty regions queued for one frame before the render loop redraws the whole canvas instead */
+export const MAX_DIRTY_REGIONS = 16;
+
+/** Draw the grid in a Web Worker where the browser can hand a canvas to one */
+export const USE_RENDER_WORKER = true;
+
 /** Polling interval for backend stats (in milliseconds) */
 export const STATS_POLL_INTERVAL = 2000;
 
-/** Delay before re-requesting chunks after cell reveal (in milliseconds) */
-export const CHUNK_REFRESH_DELAY = 50;
-
 // ============================================================================
 // COMPLETION & GAME STATE
 // ============================================================================
@@ -165,12 +209,61 @@ export function isWithinGridBounds(x: number, y: number, gridWidth: number, grid
 }
 
 /**
- * Clamp zoom value to valid range
+ * Calculate the zoom at which the whole grid fits in the viewport
+ * @param viewport - Viewport size in pixels
+ * @param gridSize - Grid size in cells
+ * @returns Zoom level
+ */
+export function getFitZoom(
+  viewport: { width: number; height: number },
+  gridSize: { width: number; height: number }
+): number {
+  return Math.min(viewport.width / (gridSize.width * CELL_SIZE), viewport.height / (gridSize.height * CELL_SIZE));
+}
+
+/**
+ * Clamp zoom value to valid range. With a viewport and grid size, zooming out
+ * stops once the whole grid fits (or at ZOOM_LIMITS.MIN for small grids);
+ * without them only the hard limits apply.
  * @param zoom - Zoom value to clamp
+ * @param viewport - Viewport size in pixels
+ * @param gridSize - Grid size in cells
  * @returns Clamped zoom value
  */
-export function clampZoom(zoom: number): number {
-  return Math.max(ZOOM_LIMITS.MIN, Math.min(ZOOM_LIMITS.MAX, zoom));
+export function clampZoom(
+  zoom: number,
+  viewport?: { width: number; height: number },
+  gridSize?: { width: number; height: number } | null
+): number {
+  const minZoom = viewport && gridSize
+    ? Math.max(ZOOM_LIMITS.ABSOLUTE_MIN, Math.min(ZOOM_LIMITS.MIN, getFitZoom(viewport, gridSize)))
+    : ZOOM_LIMITS.ABSOLUTE_MIN;
+  return Math.max(minZoom, Math.min(ZOOM_LIMITS.MAX, zoom));
+}
+
+/**
+ * Pick the render strategy for a zoom level
+ * @param zoom - Current zoom level
+ * @returns Render level
+ */
+export function getRenderLevel(zoom: number): RenderLevel {
+  if (zoom < RENDER_LEVEL_ZOOM.HEATMAP) return RENDER_LEVELS.HEATMAP;
+  if (zoom < RENDER_LEVEL_ZOOM.BLOCKS) return RENDER_LEVELS.BLOCKS;
+  return RENDER_LEVELS.CELLS;
+}
+
+/**
+ * Calculate the interval between ruler lines, doubling RULER_INTERVAL until
+ * the lines are at least MIN_RULER_SPACING apart on screen
+ * @param zoom - Current zoom level
+ * @returns Ruler interval in cells
+ */
+export function getRulerInterval(zoom: number): number {
+  let interval = RULER_INTERVAL;
+  while (interval * CELL_SIZE * zoom < MIN_RULER_SPACING) {
+    interval *= 2;
+  }
+  return interval;
 }
 
 /**
@@ -185,6 +278,15 @@ export function getCellRenderStep(zoom: number): number {
   return CELL_RENDER_STEPS.ZOOM_DEFAULT;
 }
 
+/**
+ * Pick the chunk bitmap scale for a zoom level, so bitmaps are only ever scaled down
+ * @param zoom - Current zoom level
+ * @returns Bitmap scale, or null above the largest tier (few enough cells to draw directly)
+ */
+export function getBitmapTier(zoom: number): number | null {
+  return CHUNK_BITMAP.TIERS.find((tier) => tier >= zoom) ?? null;
+}
+
 /**
  * Calculate buffer zone size based on zoom level
  * @param zoom - Current zoom level
@@ -5,6 +5,9 @@
  * This includes event names, API endpoints, error messages, and connection configurations.
  */
 
+import type { FoggedCell, FoggedChunk } from '../hooks/useChunkedGridStore';
+import type { GlobalStats } from '../hooks/useGlobalStatsStore';
+
 // ============================================================================
 // SOCKET EVENTS
 // ============================================================================
@@ -13,12 +16,17 @@
 export const CLIENT_EVENTS = {
   // Connection events
   USER_CONNECT: 'user_connect',
+  SET_USERNAME: 'set_username',
   
   // Game events
   GET_CHUNK: 'get_chunk',
   REVEAL_CELL: 'reveal_cell',
   FLAG_CELL: 'flag_cell',
   CHORD_CLICK: 'chord_click',
+  SUBSCRIBE_CHUNKS: 'subscribe_chunks',
+  UNSUBSCRIBE_CHUNKS: 'unsubscribe_chunks',
+  SYNC_CHUNKS: 'sync_chunks', // Server replies with chunk_data only for chunks that changed
+  GET_OVERVIEW: 'get_overview', // Per-chunk summaries of the whole board, for far zoom
   
   // Future events (for upcoming features)
   CHAT_MESSAGE: 'chat_message',
@@ -33,13 +41,19 @@ export const SERVER_EVENTS = {
   CONNECT: 'connect',
   DISCONNECT: 'disconnect',
   CONNECT_ERROR: 'connect_error',
+  USERNAME_RESULT: 'username_result', // Answers set_username, or reports a conflict at connect
   
   // Game events
   CHUNK_DATA: 'chunk_data',
   CELL_UPDATE: 'cell_update',
+  CELLS_UPDATE: 'cells_update', // Batch of cell updates (e.g. a flood fill)
+  ACTION_RESULT: 'action_result', // Acknowledges a reveal/flag/chord, after the cell updates it caused
+  STATS_UPDATE: 'stats_update', // Global stats; a full snapshot on connect, then coalesced deltas
+  OVERVIEW_DATA: 'overview_data', // Answers get_overview
   
   // Future events (for upcoming features)
   CHAT_MESSAGE: 'chat_message',
+  PLAYER_LIST: 'player_list', // Everyone online, sent on connect
   PLAYER_JOINED: 'player_joined',
   PLAYER_LEFT: 'player_left',
   PLAYER_MOVE: 'player_move',
@@ -57,7 +71,7 @@ export const API_ENDPOINTS = {
   HEALTH: '/health',
   GRID_SIZE: '/grid-size',
   
-  // Statistics
+  // Statistics (HTTP fallback while stats cannot be pushed over the socket)
   CHUNK_COUNT: '/chunk-count',
   REVEALED_STATS: '/revealed-stats',
   FLAGGED_STATS: '/flagged-stats',
@@ -79,16 +93,73 @@ export const SOCKET_CONFIG = {
   CONNECTION_TIMEOUT: 5000,
   RECONNECTION_ATTEMPTS: 5,
   RECONNECTION_DELAY: 1000,
+  IDENTITY_ACK_TIMEOUT: 5000, // milliseconds to wait for user_connect's acknowledgement; older servers never send one
   
   // Event throttling
   CURSOR_UPDATE_THROTTLE: 50, // milliseconds
+  PLAYER_MOVE_THROTTLE: 250, // milliseconds between viewport position updates
   TYPING_INDICATOR_DURATION: 3000, // milliseconds
   
+  // Optimistic cell actions
+  ACTION_ACK_TIMEOUT: 5000, // milliseconds before an unacknowledged action is rolled back
+  ACTION_ERROR_DURATION: 4000, // milliseconds an action error stays on screen
+  
+  // Board overview
+  OVERVIEW_REFRESH_INTERVAL: 10000, // milliseconds between overview requests while zoomed out
+  
   // Error handling
   MAX_RETRY_ATTEMPTS: 3,
   RETRY_DELAY: 1000,
 } as const;
 
+// ============================================================================
+// CHUNK WIRE FORMAT
+// ============================================================================
+
+/** Chunk encodings the client can decode, in order of preference */
+export const CHUNK_ENCODINGS = {
+  PACKED_RLE: 'packed-rle', // One bitfield byte per cell, run-length compressed
+  JSON: 'json',             // Legacy Cell[][] JSON
+} as const;
+
+export type ChunkEncoding = typeof CHUNK_ENCODINGS[keyof typeof CHUNK_ENCODINGS];
+
+/** Bit layout of a packed cell byte */
+export const PACKED_CELL_BITS = {
+  ADJACENT_MASK: 0x0f, // bits 0-3: adjacent mine count (0-8)
+  REVEALED: 0x10,      // bit 4 (mine/count bits are only read when set)
+  HAS_MINE: 0x20,      // bit 5
+  FLAGGED: 0x40,       // bit 6
+} as const;
+
+// ============================================================================
+// IDENTITY CONFIGURATION
+// ============================================================================
+
+/** Player identity persistence configuration */
+export const IDENTITY_CONFIG = {
+  STORAGE_KEY: 'massivesweeper-identity',
+  TOKEN_PREVIEW_LENGTH: 8, // characters shown in the UI
+} as const;
+
+/** Username rules (the server enforces uniqueness) */
+export const USERNAME_CONFIG = {
+  MIN_LENGTH: 3,
+  MAX_LENGTH: 20,
+  ALLOWED_PATTERN: /^[A-Za-z0-9_\- ]+$/,
+} as const;
+
+// ============================================================================
+// CHAT CONFIGURATION
+// ============================================================================
+
+/** In-game chat configuration */
+export const CHAT_CONFIG = {
+  MAX_MESSAGE_LENGTH: 200, // characters
+  MAX_HISTORY: 100,        // messages kept in memory
+  TYPING_REFRESH_INTERVAL: 1000, // milliseconds between "still typing" notifications
+} as const;
+
 // ============================================================================
 // ERROR MESSAGES
 // ============================================================================
@@ -103,6 +174,10 @@ export const ERROR_MESSAGES = {
   // Game errors
   CHUNK_REQUEST_FAILED: 'Failed to request chunk data',
   CELL_UPDATE_FAILED: 'Failed to update cell',
+  ACTION_REJECTED: 'The server rejected your move',
+  ACTION_TIMED_OUT: 'The server did not confirm your move',
+  INVALID_PAYLOAD: 'Received malformed payload from server',
+  CHUNK_DECODE_FAILED: 'Failed to decode packed chunk data',
   INVALID_COORDINATES: 'Invalid cell coordinates',
   
   // API errors
@@ -115,6 +190,13 @@ export const ERROR_MESSAGES = {
   OUT_OF_BOUNDS: 'Coordinates out of grid bounds',
   CHUNK_NOT_LOADED: 'Chunk not loaded',
   
+  // Username errors
+  USERNAME_TOO_SHORT: 'Username is too short',
+  USERNAME_TOO_LONG: 'Username is too long',
+  USERNAME_INVALID_CHARACTERS: 'Use only letters, numbers, spaces, "-" and "_"',
+  USERNAME_INAPPROPRIATE: 'Please choose a different username',
+  USERNAME_TAKEN: 'That username is already taken',
+  
   // Future error messages
   CHAT_MESSAGE_FAILED: 'Failed to send chat message',
   PLAYER_UPDATE_FAILED: 'Failed to update player status',
@@ -158,30 +240,112 @@ export interface ChunkRequestPayload {
   cy: number;
 }
 
+export interface ChunkSubscriptionPayload {
+  chunks: ChunkRequestPayload[];
+}
+
 export interface CellActionPayload {
   cx: number;
   cy: number;
   x: number;
   y: number;
+  requestId: string; // Echoed back in action_result
+}
+
+export interface ActionResultPayload {
+  requestId: string;
+  ok: boolean;
+  error?: string; // Reason shown to the player when the action was rejected
+  flagCorrect?: boolean; // Accepted flag placements only: whether the flagged cell is a mine (servers that score flags)
 }
 
 export interface UserConnectPayload {
   token: string;
+  username: string;
   firstTime: boolean;
+  previousToken: string | null; // Token replaced by a rotation, for history re-association
+  createdAt: string; // ISO timestamp of the identity's first visit
+  lastSeenAt: string | null; // ISO timestamp of the previous visit
+  visitCount: number;
+  chunkEncodings: ChunkEncoding[]; // Supported chunk encodings, preferred first
+}
+
+export interface SetUsernamePayload {
+  username: string;
+}
+
+export interface UsernameResultPayload {
+  ok: boolean;
+  username: string; // The name now in use (may be normalised by the server)
+  reason?: 'taken' | 'invalid';
+  suggestion?: string; // Available alternative when the name was taken
+}
+
+export interface ChunkVersionPayload {
+  cx: number;
+  cy: number;
+  version: number;
+}
+
+export interface ChunkSyncPayload {
+  chunks: ChunkVersionPayload[];
+}
+
+export interface JsonChunkDataPayload {
+  cx: number;
+  cy: number;
+  version?: number; // Server-side chunk version, absent on servers without versioning
+  encoding?: typeof CHUNK_ENCODINGS.JSON; // Absent on servers that predate negotiation
+  chunk: FoggedChunk; // Hidden cells may omit hasMine/adjacentMines
 }
 
-export interface ChunkDataPayload {
+export interface PackedChunkDataPayload {
   cx: number;
   cy: number;
-  chunk: any[][]; // Cell[][] type
+  version?: number;
+  encoding: typeof CHUNK_ENCODINGS.PACKED_RLE;
+  width: number;
+  height: number;
+  data: ArrayBuffer | Uint8Array; // [runLength, cellByte] pairs, see PACKED_CELL_BITS
 }
 
+export type ChunkDataPayload = JsonChunkDataPayload | PackedChunkDataPayload;
+
 export interface CellUpdatePayload {
   cx: number;
   cy: number;
   x: number;
   y: number;
-  cell: any; // Cell type
+  cell: FoggedCell; // Hidden cells may omit hasMine/adjacentMines
+  version?: number; // Server-side chunk version after this update
+}
+
+export interface CellsUpdatePayload {
+  updates: CellUpdatePayload[]; // May span several chunks
+}
+
+export type OverviewRequestPayload = Record<string, never>;
+
+export interface OverviewDataPayload {
+  chunksX: number;
+  chunksY: number;
+  // One entry per chunk, row by row (index = cy * chunksX + cx)
+  revealedPercent: number[];
+  flagCount: number[];
+  explodedCount: number[];
+}
+
+export interface StatsUpdatePayload {
+  full?: boolean; // True for a complete snapshot, otherwise only changed fields are sent
+  stats: Partial<GlobalStats>;
+}
+
+export interface ChatSendPayload {
+  message: string; // The server stamps the sender and time, then relays it to everyone (sender included)
+}
+
+export interface TypingStatusPayload {
+  isTyping: boolean;
 }
 
 // Future payload types for upcoming features
@@ -193,12 +357,29 @@ export interface ChatMessagePayload {
 }
 
 export interface PlayerMovePayload {
-  x: number;
+  x: number; // World cell at the centre of the player's viewport
   y: number;
+  zoom?: number;
   userId: string;
   username: string;
 }
 
+export interface PlayerPositionPayload {
+  x: number;
+  y: number;
+  zoom: number; // The server adds the sender's identity before relaying
+}
+
+export interface PlayerListPayload {
+  selfId?: string; // Our own user ID, so we can leave ourselves out of the list
+  players: Array<PlayerPresencePayload & Partial<Pick<PlayerMovePayload, 'x' | 'y' | 'zoom'>>>;
+}
+
+export interface CursorPositionPayload {
+  x: number; // World cell coordinates, fractional within a cell
+  y: number;
+}
+
 export interface CursorUpdatePayload {
   x: number;
   y: number;
@@ -206,6 +387,17 @@ export interface CursorUpdatePayload {
   username: string;
 }
 
+export interface PlayerPresencePayload {
+  userId: string;
+  username: string;
+}
+
+export interface PlayerTypingPayload {
+  userId: string;
+  username: string;
+  isTyping: boolean;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
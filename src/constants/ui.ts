@@ -61,6 +61,7 @@ export const COLORS = {
     RULER_LINE: 'rgba(0, 100, 255, 0.6)', // Blue with transparency
     RULER_LABEL: 'rgba(0, 100, 255, 0.9)', // Blue for labels
     GRID_LINE: 'black',      // Black for grid lines
+    TITLE: 'rgba(0,0,0,0.15)', // Faint title drawn behind the grid
   },
 
   // Flag and mine colors
@@ -76,6 +77,179 @@ export const COLORS = {
     SECONDARY: '#0056b3',    // Darker brand color
     ACCENT: '#667eea',       // Accent color
   },
+
+  // Minimap
+  MINIMAP: {
+    BACKGROUND: 'rgba(20, 20, 20, 0.85)',
+    UNKNOWN: '#111',         // Chunks we have no data for
+    VIEWPORT: 'rgba(255, 255, 255, 0.9)',
+  },
+
+  // Chunk heatmap (far zoom overview and minimap)
+  HEATMAP: {
+    EXPLODED: 'rgb(255, 80, 80)', // Tint for chunks where mines went off
+  },
+
+  // Other players' cursors and labels (picked per player, see getPlayerColor)
+  PLAYERS: [
+    '#e6194b', // Red
+    '#3cb44b', // Green
+    '#4363d8', // Blue
+    '#f58231', // Orange
+    '#911eb4', // Purple
+    '#008080', // Teal
+    '#f032e6', // Magenta
+    '#9a6324', // Brown
+  ],
+} as const;
+
+// ============================================================================
+// THEMES
+// ============================================================================
+
+/** Colors the grid canvas and minimap draw with; every theme provides all of them */
+export interface ThemePalette {
+  CANVAS: string; // Background around the board
+  CELL: { UNREVEALED: string; PRESSED: string; REVEALED: string; MINE: string; BORDER: string };
+  NUMBERS: Record<1 | 2 | 3 | 4 | 5 | 6 | 7 | 8, string>;
+  GRID: { RULER_LINE: string; RULER_LABEL: string; GRID_LINE: string; TITLE: string };
+  GAME: { FLAG: string; MINE: string; HOVER: string };
+  OVERLAY: { BACKGROUND: string; TEXT: string }; // Stats panel drawn on the canvas
+}
+
+/** Selectable theme identifiers */
+export const THEME_IDS = {
+  LIGHT: 'light',
+  DARK: 'dark',
+  HIGH_CONTRAST: 'high-contrast',
+  COLORBLIND: 'colorblind',
+} as const;
+
+export type ThemeId = typeof THEME_IDS[keyof typeof THEME_IDS];
+
+/** Theme names and palettes, in the order the theme picker lists them */
+export const THEMES: Record<ThemeId, { LABEL: string; PALETTE: ThemePalette }> = {
+  [THEME_IDS.LIGHT]: {
+    LABEL: 'Light',
+    PALETTE: {
+      CANVAS: COLORS.BACKGROUND.PRIMARY,
+      CELL: COLORS.CELL,
+      NUMBERS: COLORS.NUMBERS,
+      GRID: COLORS.GRID,
+      GAME: COLORS.GAME,
+      OVERLAY: { BACKGROUND: COLORS.BACKGROUND.OVERLAY, TEXT: COLORS.UI.TEXT.PRIMARY },
+    },
+  },
+  [THEME_IDS.DARK]: {
+    LABEL: 'Dark',
+    PALETTE: {
+      CANVAS: '#121316',
+      CELL: {
+        UNREVEALED: '#4a505e', // Raised slate, lighter than revealed ground
+        PRESSED: '#646b7c',
+        REVEALED: '#1d2027',
+        MINE: '#8c2f2f',
+        BORDER: '#0b0c0f',
+      },
+      NUMBERS: {
+        1: '#6ea8ff',
+        2: '#6fcf6f',
+        3: '#ff6b6b',
+        4: '#b39dff',
+        5: '#ffa94d',
+        6: '#4dd0e1',
+        7: '#e0e0e0',
+        8: '#9e9e9e',
+      },
+      GRID: {
+        RULER_LINE: 'rgba(110, 168, 255, 0.5)',
+        RULER_LABEL: 'rgba(110, 168, 255, 0.9)',
+        GRID_LINE: '#0b0c0f',
+        TITLE: 'rgba(255,255,255,0.08)',
+      },
+      GAME: {
+        FLAG: '#ff5252',
+        MINE: '#0b0c0f',
+        HOVER: 'rgba(255, 255, 255, 0.12)',
+      },
+      OVERLAY: {
+        BACKGROUND: 'rgba(29, 32, 39, 0.85)',
+        TEXT: '#e0e0e0',
+      },
+    },
+  },
+  [THEME_IDS.HIGH_CONTRAST]: {
+    LABEL: 'High contrast',
+    PALETTE: {
+      CANVAS: '#000000',
+      CELL: {
+        UNREVEALED: '#000000',
+        PRESSED: '#595959',
+        REVEALED: '#ffffff',
+        MINE: '#ff0000',
+        BORDER: '#808080',
+      },
+      NUMBERS: {
+        1: '#0000ff',
+        2: '#006400',
+        3: '#c80000',
+        4: '#000064',
+        5: '#640000',
+        6: '#005a5a',
+        7: '#000000',
+        8: '#404040',
+      },
+      GRID: {
+        RULER_LINE: 'rgba(255, 255, 0, 0.8)',
+        RULER_LABEL: '#ffff00',
+        GRID_LINE: '#ffffff',
+        TITLE: 'rgba(255,255,255,0.2)',
+      },
+      GAME: {
+        FLAG: '#ffff00', // Yellow reads against black unrevealed cells
+        MINE: '#000000',
+        HOVER: 'rgba(255, 255, 0, 0.35)',
+      },
+      OVERLAY: {
+        BACKGROUND: '#000000', // Opaque, so the board never shows through the text
+        TEXT: '#ffffff',
+      },
+    },
+  },
+  [THEME_IDS.COLORBLIND]: {
+    LABEL: 'Colorblind-safe',
+    PALETTE: {
+      CANVAS: COLORS.BACKGROUND.PRIMARY,
+      CELL: {
+        ...COLORS.CELL,
+        MINE: '#cc79a7', // Reddish purple instead of red next to gray
+      },
+      // Okabe-Ito palette, distinguishable with the common color vision deficiencies
+      NUMBERS: {
+        1: '#0072b2',
+        2: '#009e73',
+        3: '#d55e00',
+        4: '#000080',
+        5: '#8c5a00',
+        6: '#56b4e9',
+        7: '#000000',
+        8: '#808080',
+      },
+      GRID: COLORS.GRID,
+      GAME: {
+        ...COLORS.GAME,
+        FLAG: '#e69f00', // Orange instead of red
+      },
+      OVERLAY: { BACKGROUND: COLORS.BACKGROUND.OVERLAY, TEXT: COLORS.UI.TEXT.PRIMARY },
+    },
+  },
+};
+
+/** Theme settings */
+export const THEME_CONFIG = {
+  DEFAULT: THEME_IDS.LIGHT,  // Used when nothing is stored and the system has no preference
+  DARK: THEME_IDS.DARK,      // Used when the system prefers a dark color scheme
+  STORAGE_KEY: 'massivesweeper-theme',
 } as const;
 
 // ============================================================================
@@ -89,6 +263,7 @@ export const Z_INDEX = {
   UI: 10,                    // Basic UI elements
   OVERLAY: 20,               // UI overlays (rules panel)
   HELP: 15,                  // Help button (above UI, below overlays)
+  CHAT: 12,                  // Chat panel (above UI, below help)
   MODAL: 100,                // Modal dialogs
   COMPLETION: 100,           // Completion screen
   DEBUG: 10,                 // Debug elements
@@ -200,6 +375,43 @@ export const ANIMATION = {
   },
 } as const;
 
+// ============================================================================
+// MINIMAP
+// ============================================================================
+
+/** Minimap layout */
+export const MINIMAP = {
+  SIZE: 180,        // Length of the longer side in screen pixels
+  PLAYER_DOT: 3,    // Radius of other players' markers
+  MIN_VIEWPORT: 3,  // Smallest drawn viewport rectangle side, so it never vanishes
+} as const;
+
+// ============================================================================
+// CHUNK HEATMAP
+// ============================================================================
+
+/** Shading of per-chunk summaries; revealed share blends UNREVEALED into REVEALED */
+export const HEATMAP = {
+  MAX_FLAG_TINT: 0.5,       // Flag tint opacity once a chunk's expected mines are all flagged
+  MAX_EXPLODED_TINT: 0.8,   // Explosion tint opacity at EXPLODED_SATURATION explosions
+  EXPLODED_SATURATION: 10,
+} as const;
+
+// ============================================================================
+// REMOTE CURSORS
+// ============================================================================
+
+/** Display settings for other players' cursors */
+export const REMOTE_CURSOR = {
+  IDLE_FADE_DELAY: 3000, // Milliseconds without movement before a cursor fades
+  FADE_DURATION: 2000,   // Milliseconds to fade out, after which the cursor is removed
+  SIZE: 14,              // Arrow height in screen pixels
+  LABEL_FONT: 'bold 11px sans-serif',
+  LABEL_PADDING: 3,
+  LABEL_MAX_WIDTH: 160,  // Longer names are squeezed to fit
+  VIEWPORT_MARGIN: 20,   // Screen pixels outside the canvas still drawn (partly visible labels)
+} as const;
+
 // ============================================================================
 // CURSOR STYLES
 // ============================================================================
@@ -233,10 +445,24 @@ export const BREAKPOINTS = {
 /**
  * Get number color by adjacent mine count
  * @param count - Number of adjacent mines
+ * @param numbers - Number colors of the active theme
  * @returns Color string for the number
  */
-export function getNumberColor(count: number): string {
-  return COLORS.NUMBERS[count as keyof typeof COLORS.NUMBERS] || COLORS.NUMBERS[1];
+export function getNumberColor(count: number, numbers: ThemePalette['NUMBERS'] = COLORS.NUMBERS): string {
+  return numbers[count as keyof typeof numbers] || numbers[1];
+}
+
+/**
+ * Get a stable color for a player
+ * @param userId - Player ID
+ * @returns Color from the player palette
+ */
+export function getPlayerColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return COLORS.PLAYERS[Math.abs(hash) % COLORS.PLAYERS.length];
 }
 
 /**
@@ -259,6 +485,29 @@ export function getResponsiveSpacing(baseSpacing: number, zoom: number): number
   return Math.max(baseSpacing * 0.5, Math.min(baseSpacing * 2, baseSpacing / zoom));
 }
 
+/**
+ * Check whether a keyboard event is aimed at a text field, so global
+ * shortcuts (Space to pan, Enter to chat) leave typing alone
+ * @param target - Event target
+ * @returns True for inputs, textareas and editable elements
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+}
+
+/**
+ * Check whether a keyboard event is aimed at a control that handles keys itself,
+ * so shortcuts like Enter to chat don't steal a focused button's press
+ * @param target - Event target
+ * @returns True for text fields, buttons, links, selects and elements acting as them
+ */
+export function isInteractiveTarget(target: EventTarget | null): boolean {
+  if (isEditableTarget(target)) return true;
+  if (!(target instanceof HTMLElement)) return false;
+  return target.closest('button, a[href], select, summary, [role="button"], [role="link"], [role="menuitem"]') !== null;
+}
+
 /**
  * Create a gradient background
  * @param colors - Array of colors for gradient
@@ -0,0 +1,123 @@
+import { create } from 'zustand';
+import { emit, on } from '../network/socket';
+import {
+  CLIENT_EVENTS,
+  SERVER_EVENTS,
+  SOCKET_CONFIG,
+  CHAT_CONFIG,
+  type ChatMessagePayload,
+  type PlayerTypingPayload,
+} from '../constants/socket';
+
+export interface ChatMessage extends ChatMessagePayload {
+  id: number; // Local, for React keys
+}
+
+interface ChatState {
+  messages: ChatMessage[];
+  typingPlayers: Record<string, string>; // User ID -> username of players currently typing
+  isOpen: boolean;
+  unreadCount: number;
+  // Actions
+  sendMessage: (text: string) => boolean;
+  receiveMessage: (payload: ChatMessagePayload) => void;
+  setTyping: (isTyping: boolean) => void; // Our own typing status
+  setPlayerTyping: (payload: PlayerTypingPayload) => void;
+  setOpen: (isOpen: boolean) => void;
+  clearTypingPlayers: () => void;
+}
+
+let nextMessageId = 0;
+let lastTypingSentAt = 0;
+const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+export const useChatStore = create<ChatState>()((set, get) => ({
+  messages: [],
+  typingPlayers: {},
+  isOpen: false,
+  unreadCount: 0,
+
+  sendMessage: (text) => {
+    const message = text.trim().slice(0, CHAT_CONFIG.MAX_MESSAGE_LENGTH);
+    if (!message) return false;
+
+    get().setTyping(false);
+    emit(CLIENT_EVENTS.CHAT_MESSAGE, { message });
+    return true;
+  },
+
+  receiveMessage: (payload) => {
+    set((state) => ({
+      messages: [...state.messages, { ...payload, id: ++nextMessageId }].slice(-CHAT_CONFIG.MAX_HISTORY),
+      unreadCount: state.isOpen ? 0 : state.unreadCount + 1,
+    }));
+    // A message ends that player's typing indicator
+    get().setPlayerTyping({ userId: payload.userId, username: payload.username, isTyping: false });
+  },
+
+  setTyping: (isTyping) => {
+    const now = Date.now();
+    if (isTyping) {
+      // Others expire our indicator after TYPING_INDICATOR_DURATION, so refresh it while we type
+      if (now - lastTypingSentAt < CHAT_CONFIG.TYPING_REFRESH_INTERVAL) return;
+      lastTypingSentAt = now;
+    } else {
+      if (lastTypingSentAt === 0) return;
+      lastTypingSentAt = 0;
+    }
+    emit(CLIENT_EVENTS.PLAYER_TYPING, { isTyping });
+  },
+
+  setPlayerTyping: ({ userId, username, isTyping }) => {
+    const timer = typingTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      typingTimers.delete(userId);
+    }
+
+    if (isTyping) {
+      // Expire indicators whose "stopped typing" event never arrives
+      typingTimers.set(userId, setTimeout(() => {
+        get().setPlayerTyping({ userId, username, isTyping: false });
+      }, SOCKET_CONFIG.TYPING_INDICATOR_DURATION));
+      set((state) => ({ typingPlayers: { ...state.typingPlayers, [userId]: username } }));
+      return;
+    }
+
+    if (!(userId in get().typingPlayers)) return;
+    set((state) => {
+      const typingPlayers = { ...state.typingPlayers };
+      delete typingPlayers[userId];
+      return { typingPlayers };
+    });
+  },
+
+  setOpen: (isOpen) => {
+    set((state) => ({ isOpen, unreadCount: isOpen ? 0 : state.unreadCount }));
+  },
+
+  clearTypingPlayers: () => {
+    typingTimers.forEach((timer) => clearTimeout(timer));
+    typingTimers.clear();
+    lastTypingSentAt = 0;
+    set({ typingPlayers: {} });
+  },
+}));
+
+// Socket event handlers
+on(SERVER_EVENTS.CHAT_MESSAGE, (payload) => {
+  useChatStore.getState().receiveMessage(payload);
+});
+
+on(SERVER_EVENTS.PLAYER_TYPING, (payload) => {
+  useChatStore.getState().setPlayerTyping(payload);
+});
+
+on(SERVER_EVENTS.PLAYER_LEFT, ({ userId, username }) => {
+  useChatStore.getState().setPlayerTyping({ userId, username, isTyping: false });
+});
+
+// Typing state does not survive the connection
+on(SERVER_EVENTS.DISCONNECT, () => {
+  useChatStore.getState().clearTypingPlayers();
+});
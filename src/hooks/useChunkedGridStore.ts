@@ -1,8 +1,32 @@
 import { create } from "zustand";
-import { socket } from "../network/socket";
-import { CHUNK_SIZE } from "../constants/game";
-import { createChunkKey, getApiBaseUrl, API_ENDPOINTS, ERROR_MESSAGES } from "../constants/socket";
+import { emit, on } from "../network/socket";
+import { 
+  decodePackedChunk, 
+  isPackedChunkPayload, 
+  packJsonChunk, 
+  packCell, 
+  unpackCell,
+  getChunkCell
+} from "../network/chunkCodec";
+import { CHUNK_SIZE, CHUNK_CACHE, worldToChunk, worldToLocal } from "../constants/game";
+import { 
+  createChunkKey, 
+  parseChunkKey, 
+  getApiBaseUrl, 
+  API_ENDPOINTS, 
+  CLIENT_EVENTS, 
+  SERVER_EVENTS,
+  ERROR_MESSAGES,
+  SOCKET_CONFIG,
+  type CellUpdatePayload
+} from "../constants/socket";
 
+/**
+ * A decoded view of one cell. `hasMine` and `adjacentMines` are only
+ * meaningful once the cell is revealed; hidden cells are always fogged to
+ * `false`/`0` so nothing on the client can depend on hidden mine positions.
+ * `x`/`y` are chunk-local, matching `cell_update`.
+ */
 export interface Cell {
   x: number;
   y: number;
@@ -10,25 +34,312 @@ export interface Cell {
   hasMine: boolean;
   adjacentMines: number;
   flagged: boolean;
+  pending?: boolean; // Set by getCell while a reveal of this cell awaits the server
 }
 
-export type Chunk = Cell[][];
+/**
+ * A loaded chunk. Cells are stored row by row as one PACKED_CELL_BITS byte
+ * each and never mutated once stored: a change copies them into a new chunk.
+ * `version` increases whenever a cell changes, and is never reused for a key
+ * even across evictions, so renderers can tell which chunks are dirty. `serverVersion` is the server's
+ * own version of the chunk, used to skip unchanged chunks when resyncing.
+ */
+export interface Chunk {
+  width: number;
+  height: number;
+  cells: Uint8Array;
+  version: number;
+  serverVersion: number | null; // Null if unknown (older server or untracked update)
+}
+
+/** A cell as sent by a fog server: hidden cells omit mine and count information */
+export type FoggedCell = Omit<Cell, "hasMine" | "adjacentMines"> & Partial<Pick<Cell, "hasMine" | "adjacentMines">>;
+
+export type FoggedChunk = FoggedCell[][];
+
+/** Aggregate state of a chunk, for views too far out to draw cells */
+export interface ChunkSummary {
+  revealedPercent: number; // 0-100
+  flagCount: number;
+  explodedCount: number;
+}
+
+/** A cell that changed state, with its state before the change */
+export interface CellChange {
+  cx: number;
+  cy: number;
+  x: number;
+  y: number;
+  previous: Cell;
+  cell: Cell;
+}
+
+export type CellActionType = "reveal" | "flag" | "chord";
+
+/**
+ * A reveal, flag or chord sent to the server and not yet acknowledged.
+ * Optimistic actions change how their cell is displayed (see getCell) until
+ * the server confirms them with a cell update, or they are rolled back.
+ */
+export interface PendingCellAction {
+  requestId: string;
+  type: CellActionType;
+  cx: number;
+  cy: number;
+  x: number;
+  y: number;
+  flagged?: boolean; // Flag state shown while a flag toggle is pending
+  optimistic: boolean;
+}
+
+/** The latest rejected or timed out action, shown to the player */
+export interface CellActionError {
+  message: string;
+  at: number; // Timestamp, so repeated identical errors are still noticed
+}
+
+/**
+ * Distance in chunks from a chunk to a rectangle of chunks
+ * @param cx - Chunk X coordinate
+ * @param cy - Chunk Y coordinate
+ * @param bounds - Chunk rectangle
+ * @returns Chebyshev distance (0 if inside the rectangle)
+ */
+function getChunkDistance(
+  cx: number,
+  cy: number,
+  bounds: { left: number; top: number; right: number; bottom: number }
+): number {
+  const dx = cx < bounds.left ? bounds.left - cx : Math.max(0, cx - bounds.right);
+  const dy = cy < bounds.top ? bounds.top - cy : Math.max(0, cy - bounds.bottom);
+  return Math.max(dx, dy);
+}
+
+/**
+ * Apply a pending optimistic action to a cell as stored
+ * @param cell - Cell as last confirmed by the server
+ * @param action - Pending action shown on the cell
+ * @returns Cell as it should be displayed
+ */
+function applyPendingAction(cell: Cell, action: PendingCellAction | undefined): Cell {
+  if (!action || cell.revealed) return cell;
+  if (action.type === "flag") return { ...cell, flagged: action.flagged ?? cell.flagged };
+  return { ...cell, pending: true };
+}
+
+/**
+ * Check whether a server cell state confirms a pending action
+ * @param action - Pending action on the cell
+ * @param cell - Cell state received from the server
+ * @returns True once the optimistic state no longer needs to be shown
+ */
+function isActionSettled(action: PendingCellAction, cell: FoggedCell): boolean {
+  return cell.revealed || (action.type === "flag" && cell.flagged === action.flagged);
+}
+
+function getLocalCellKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
 
 interface ChunkedGridState {
   loadedChunks: Record<string, Chunk>;
   requestedChunks: Set<string>; // Track chunks that are being requested
+  chunkLastViewed: Record<string, number>; // LRU timestamps for loaded chunks
+  chunkBudget: number; // Maximum loaded chunks before eviction
+  subscribedChunks: Set<string>; // Chunks the server sends cell updates for
+  pendingActions: Record<string, PendingCellAction>; // Unacknowledged actions by request ID
+  pendingCells: Record<string, Record<string, string>>; // Chunk key -> local cell key -> request ID shown on the cell
+  actionError: CellActionError | null;
   gridSize: { width: number; height: number } | null; // Dynamic grid size from server
   chunkSize: number;
   requestChunk: (cx: number, cy: number) => void;
   setChunk: (cx: number, cy: number, chunk: Chunk) => void;
-  updateCell: (cx: number, cy: number, x: number, y: number, cell: Cell) => void;
+  getCell: (worldX: number, worldY: number) => Cell | null; // Null if the cell's chunk is not loaded
+  updateCell: (cx: number, cy: number, x: number, y: number, cell: FoggedCell) => void;
+  updateCells: (updates: CellUpdatePayload[]) => void; // Apply many updates in one state transition
   revealCell: (cx: number, cy: number, x: number, y: number) => void;
   flagCell: (cx: number, cy: number, x: number, y: number) => void;
   chordClick: (cx: number, cy: number, x: number, y: number) => void;
+  resolveCellAction: (requestId: string, ok: boolean, error?: string) => void; // Confirm, or roll back and report the error
+  dismissActionError: () => void;
   clearRequestedChunk: (cx: number, cy: number) => void; // Remove from requested set (for error handling)
   setGridSize: (width: number, height: number) => void;
   fetchGridSize: () => Promise<void>;
   restoreLoadedChunks: () => void; // Restore previously loaded chunks on page refresh
+  setChunkBudget: (budget: number) => void;
+  retainVisibleChunks: (visibleChunks: Array<{ cx: number; cy: number }>) => void; // Touch visible chunks and evict far ones over budget
+  syncSubscriptions: (visibleChunks: Array<{ cx: number; cy: number }>) => void; // Subscribe to exactly the visible chunks
+  resubscribeAll: () => void; // Re-send the subscription set after reconnecting
+  resyncLoadedChunks: () => void; // Refresh displayed chunks that may have changed while disconnected
+  clearRequestedChunks: () => void; // Forget in-flight requests (they die with the connection)
+}
+
+const cellChangeListeners = new Set<(changes: CellChange[]) => void>();
+
+/**
+ * Listen for cells whose state changed, after the change is applied
+ * @param listener - Called with every batch of changed cells
+ * @returns Function that removes the listener
+ */
+export function subscribeCellChanges(listener: (changes: CellChange[]) => void): () => void {
+  cellChangeListeners.add(listener);
+  return () => {
+    cellChangeListeners.delete(listener);
+  };
+}
+
+// Versions come from one store-wide counter, so a chunk that is evicted and
+// loaded again never reuses a version that cached renders were keyed on
+let chunkVersionCounter = 0;
+
+/**
+ * Take the next chunk version
+ * @returns Version greater than any handed out before
+ */
+function nextChunkVersion(): number {
+  return ++chunkVersionCounter;
+}
+
+type PendingActionState = Pick<ChunkedGridState, "pendingActions" | "pendingCells" | "loadedChunks">;
+
+/**
+ * Add a pending action, marking its cell if the action is optimistic
+ * @param state - Current store state
+ * @param action - Action that was just sent
+ * @returns State fields to set
+ */
+function withPendingAction(state: ChunkedGridState, action: PendingCellAction): PendingActionState {
+  const pendingActions = { ...state.pendingActions, [action.requestId]: action };
+  const key = createChunkKey(action.cx, action.cy);
+  const chunk = state.loadedChunks[key];
+  if (!action.optimistic || !chunk) {
+    return { pendingActions, pendingCells: state.pendingCells, loadedChunks: state.loadedChunks };
+  }
+
+  return {
+    pendingActions,
+    pendingCells: {
+      ...state.pendingCells,
+      [key]: { ...state.pendingCells[key], [getLocalCellKey(action.x, action.y)]: action.requestId },
+    },
+    // The displayed cell changed, so renderers must treat the chunk as dirty
+    loadedChunks: { ...state.loadedChunks, [key]: { ...chunk, version: nextChunkVersion() } },
+  };
+}
+
+/**
+ * Remove pending actions, unmarking cells they are still shown on
+ * @param state - Current store state
+ * @param requestIds - Actions to remove
+ * @returns State fields to set
+ */
+function withoutPendingActions(state: PendingActionState, requestIds: string[]): PendingActionState {
+  const pendingActions = { ...state.pendingActions };
+  const pendingCells = { ...state.pendingCells };
+  const loadedChunks = { ...state.loadedChunks };
+
+  for (const requestId of requestIds) {
+    const action = pendingActions[requestId];
+    if (!action) continue;
+    delete pendingActions[requestId];
+
+    // A newer action on the same cell keeps its own optimistic state
+    const key = createChunkKey(action.cx, action.cy);
+    const cellKey = getLocalCellKey(action.x, action.y);
+    if (pendingCells[key]?.[cellKey] !== requestId) continue;
+
+    const remaining = { ...pendingCells[key] };
+    delete remaining[cellKey];
+    if (Object.keys(remaining).length > 0) {
+      pendingCells[key] = remaining;
+    } else {
+      delete pendingCells[key];
+    }
+    const chunk = loadedChunks[key];
+    if (chunk) {
+      loadedChunks[key] = { ...chunk, version: nextChunkVersion() };
+    }
+  }
+
+  return { pendingActions, pendingCells, loadedChunks };
+}
+
+const CELL_ACTION_EVENTS = {
+  reveal: CLIENT_EVENTS.REVEAL_CELL,
+  flag: CLIENT_EVENTS.FLAG_CELL,
+  chord: CLIENT_EVENTS.CHORD_CLICK,
+} as const;
+
+const actionTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const actionIdPrefix = Math.random().toString(36).slice(2, 8);
+let actionCounter = 0;
+
+/**
+ * Stop waiting for an action's answer once it is settled
+ * @param requestId - Request ID of the action
+ */
+function clearActionTimer(requestId: string): void {
+  const timer = actionTimers.get(requestId);
+  if (timer === undefined) return;
+  clearTimeout(timer);
+  actionTimers.delete(requestId);
+}
+
+/**
+ * Send a cell action with a request ID and track it until the server answers
+ * @param type - Action type
+ * @param cx - Chunk X coordinate
+ * @param cy - Chunk Y coordinate
+ * @param x - Local X coordinate
+ * @param y - Local Y coordinate
+ * @param flagged - Flag state to show until confirmed (optimistic flag toggles only)
+ */
+function sendCellAction(type: CellActionType, cx: number, cy: number, x: number, y: number, flagged?: boolean): void {
+  const requestId = `${actionIdPrefix}-${++actionCounter}`;
+  const action: PendingCellAction = {
+    requestId,
+    type,
+    cx,
+    cy,
+    x,
+    y,
+    flagged,
+    optimistic: type === "reveal" || flagged !== undefined,
+  };
+
+  useChunkedGridStore.setState((state) => withPendingAction(state, action));
+  actionTimers.set(requestId, setTimeout(() => {
+    actionTimers.delete(requestId);
+    // Only report a timeout if the player saw something that is now undone
+    const pending = useChunkedGridStore.getState().pendingActions[requestId];
+    useChunkedGridStore.getState().resolveCellAction(
+      requestId,
+      false,
+      pending?.optimistic ? ERROR_MESSAGES.ACTION_TIMED_OUT : undefined
+    );
+  }, SOCKET_CONFIG.ACTION_ACK_TIMEOUT));
+
+  emit(CELL_ACTION_EVENTS[type], { cx, cy, x, y, requestId });
+}
+
+/**
+ * Read a cell as displayed, including any pending optimistic action
+ * @param state - Current store state
+ * @param cx - Chunk X coordinate
+ * @param cy - Chunk Y coordinate
+ * @param x - Local X coordinate
+ * @param y - Local Y coordinate
+ * @returns Displayed cell, or null if its chunk is not loaded
+ */
+function getDisplayedCell(state: ChunkedGridState, cx: number, cy: number, x: number, y: number): Cell | null {
+  const key = createChunkKey(cx, cy);
+  const chunk = state.loadedChunks[key];
+  if (!chunk) return null;
+  const cell = getChunkCell(chunk, x, y);
+  const pendingInChunk = state.pendingCells[key];
+  if (!cell || !pendingInChunk) return cell;
+  const requestId = pendingInChunk[getLocalCellKey(x, y)];
+  return requestId ? applyPendingAction(cell, state.pendingActions[requestId]) : cell;
 }
 
 // Default chunk size (should match server)
@@ -37,6 +348,12 @@ const DEFAULT_CHUNK_SIZE = CHUNK_SIZE;
 export const useChunkedGridStore = create<ChunkedGridState>((set, get) => ({
   loadedChunks: {},
   requestedChunks: new Set(),
+  chunkLastViewed: {},
+  chunkBudget: CHUNK_CACHE.MAX_LOADED_CHUNKS,
+  subscribedChunks: new Set(),
+  pendingActions: {},
+  pendingCells: {},
+  actionError: null,
   gridSize: null,
   chunkSize: DEFAULT_CHUNK_SIZE,
 
@@ -60,48 +377,121 @@ export const useChunkedGridStore = create<ChunkedGridState>((set, get) => ({
       set((state) => ({
         requestedChunks: new Set([...state.requestedChunks, key])
       }));
-      socket.emit("get_chunk", { cx: clampedCx, cy: clampedCy });
+      emit(CLIENT_EVENTS.GET_CHUNK, { cx: clampedCx, cy: clampedCy });
     }
   },
 
   setChunk: (cx, cy, chunk) => {
     const key = createChunkKey(cx, cy);
     set((state) => {
-      const newLoadedChunks = { ...state.loadedChunks, [key]: chunk };
+      // A fresh version, even after an eviction, so cached renders are invalidated
+      const newLoadedChunks = { ...state.loadedChunks, [key]: { ...chunk, version: nextChunkVersion() } };
       
       return {
         loadedChunks: newLoadedChunks,
-        requestedChunks: new Set([...state.requestedChunks].filter(k => k !== key)) // Remove from requested set
+        requestedChunks: new Set([...state.requestedChunks].filter(k => k !== key)), // Remove from requested set
+        chunkLastViewed: { ...state.chunkLastViewed, [key]: Date.now() }
       };
     });
   },
 
+  getCell: (worldX, worldY) => {
+    return getDisplayedCell(get(), worldToChunk(worldX), worldToChunk(worldY), worldToLocal(worldX), worldToLocal(worldY));
+  },
+
   updateCell: (cx, cy, x, y, cell) => {
-    set((state) => {
+    get().updateCells([{ cx, cy, x, y, cell }]);
+  },
+
+  updateCells: (updates) => {
+    const state = get();
+    const changes: CellChange[] = [];
+    const changedChunks: Record<string, Chunk> = {};
+    const settledActions: string[] = [];
+    const copiedCells = new Set<string>(); // Chunks whose cells were already copied for this batch
+    
+    // Each touched chunk gets a new wrapper and a copy of its cells once, so
+    // the previous state's cells never change underneath it
+    for (const { cx, cy, x, y, cell, version } of updates) {
       const key = createChunkKey(cx, cy);
-      const chunk = state.loadedChunks[key];
-      if (!chunk) return {};
-      const newChunk = chunk.map((row, rowIdx) =>
-        rowIdx === y ? row.map((c, colIdx) => (colIdx === x ? cell : c)) : row
-      );
-      const newLoadedChunks = { ...state.loadedChunks, [key]: newChunk };
+      const chunk = changedChunks[key] ?? state.loadedChunks[key];
+      if (!chunk || x >= chunk.width || y >= chunk.height) continue;
       
-      return {
-        loadedChunks: newLoadedChunks,
+      // The server's state for a cell with a pending action confirms (or overrides) it
+      const pendingId = state.pendingCells[key]?.[getLocalCellKey(x, y)];
+      if (pendingId && isActionSettled(state.pendingActions[pendingId], cell)) {
+        settledActions.push(pendingId);
+      }
+      
+      // An update without a version means we can no longer tell if the chunk is current
+      const serverVersion = version ?? null;
+      const index = y * chunk.width + x;
+      const previousByte = chunk.cells[index];
+      const nextByte = packCell(cell);
+      if (previousByte === nextByte) {
+        if (chunk.serverVersion !== serverVersion) {
+          changedChunks[key] = { ...chunk, serverVersion };
+        }
+        continue;
+      }
+      
+      const cells = copiedCells.has(key) ? chunk.cells : new Uint8Array(chunk.cells);
+      copiedCells.add(key);
+      cells[index] = nextByte;
+      changedChunks[key] = {
+        ...chunk,
+        cells,
+        version: nextChunkVersion(),
+        serverVersion,
       };
-    });
+      changes.push({ cx, cy, x, y, previous: unpackCell(previousByte, x, y), cell: unpackCell(nextByte, x, y) });
+    }
+    
+    if (Object.keys(changedChunks).length === 0 && settledActions.length === 0) return;
+    const next = {
+      pendingActions: state.pendingActions,
+      pendingCells: state.pendingCells,
+      loadedChunks: { ...state.loadedChunks, ...changedChunks },
+    };
+    // Settled actions need no answer, so their timeouts must not roll them back later
+    settledActions.forEach(clearActionTimer);
+    set(settledActions.length > 0 ? withoutPendingActions(next, settledActions) : next);
+    if (changes.length > 0) {
+      cellChangeListeners.forEach((listener) => listener(changes));
+    }
   },
 
   revealCell: (cx, cy, x, y) => {
-    socket.emit("reveal_cell", { cx, cy, x, y });
+    // Revealed and flagged cells cannot be revealed, so don't ask the server
+    const cell = getDisplayedCell(get(), cx, cy, x, y);
+    if (cell && (cell.revealed || cell.flagged || cell.pending)) return;
+    sendCellAction("reveal", cx, cy, x, y);
   },
 
   flagCell: (cx, cy, x, y) => {
-    socket.emit("flag_cell", { cx, cy, x, y });
+    const cell = getDisplayedCell(get(), cx, cy, x, y);
+    if (cell?.revealed) return;
+    sendCellAction("flag", cx, cy, x, y, cell ? !cell.flagged : undefined);
   },
 
   chordClick: (cx, cy, x, y) => {
-    socket.emit("chord_click", { cx, cy, x, y });
+    // Chords have no optimistic state: the neighbours they reveal are unknown
+    sendCellAction("chord", cx, cy, x, y);
+  },
+
+  resolveCellAction: (requestId, ok, error) => {
+    clearActionTimer(requestId);
+    
+    const state = get();
+    if (!state.pendingActions[requestId]) return;
+    set({
+      ...withoutPendingActions(state, [requestId]),
+      actionError: !ok && error ? { message: error, at: Date.now() } : state.actionError,
+    });
+  },
+
+  dismissActionError: () => {
+    set({ actionError: null });
   },
 
   clearRequestedChunk: (cx, cy) => {
@@ -129,26 +519,212 @@ export const useChunkedGridStore = create<ChunkedGridState>((set, get) => ({
   restoreLoadedChunks: () => {
     // No longer restoring chunks from localStorage - backend is source of truth
   },
+
+  setChunkBudget: (budget) => {
+    set({ chunkBudget: Math.max(1, Math.floor(budget)) });
+  },
+
+  retainVisibleChunks: (visibleChunks) => {
+    if (visibleChunks.length === 0) return;
+
+    const state = get();
+    const now = Date.now();
+    const chunkLastViewed = { ...state.chunkLastViewed };
+    for (const { cx, cy } of visibleChunks) {
+      const key = createChunkKey(cx, cy);
+      if (state.loadedChunks[key]) chunkLastViewed[key] = now;
+    }
+
+    const loadedKeys = Object.keys(state.loadedChunks);
+    const excess = loadedKeys.length - state.chunkBudget;
+    if (excess <= 0) {
+      set({ chunkLastViewed });
+      return;
+    }
+
+    // Evict least recently viewed chunks that are well outside the view
+    const bounds = {
+      left: Math.min(...visibleChunks.map((c) => c.cx)),
+      top: Math.min(...visibleChunks.map((c) => c.cy)),
+      right: Math.max(...visibleChunks.map((c) => c.cx)),
+      bottom: Math.max(...visibleChunks.map((c) => c.cy)),
+    };
+    const evicted = loadedKeys
+      .filter((key) => {
+        const { cx, cy } = parseChunkKey(key);
+        return getChunkDistance(cx, cy, bounds) > CHUNK_CACHE.KEEP_DISTANCE;
+      })
+      .sort((a, b) => (chunkLastViewed[a] ?? 0) - (chunkLastViewed[b] ?? 0))
+      .slice(0, excess);
+
+    if (evicted.length === 0) {
+      set({ chunkLastViewed });
+      return;
+    }
+
+    const loadedChunks = { ...state.loadedChunks };
+    const subscribedChunks = new Set(state.subscribedChunks);
+    const stillSubscribed = evicted.filter((key) => subscribedChunks.has(key));
+    for (const key of evicted) {
+      delete loadedChunks[key];
+      delete chunkLastViewed[key];
+      subscribedChunks.delete(key);
+    }
+    set({ loadedChunks, chunkLastViewed, subscribedChunks });
+
+    // Evicted chunks are re-requested by requestChunk when they come back into view
+    if (stillSubscribed.length > 0) {
+      emit(CLIENT_EVENTS.UNSUBSCRIBE_CHUNKS, { chunks: stillSubscribed.map(parseChunkKey) });
+    }
+  },
+
+  syncSubscriptions: (visibleChunks) => {
+    const state = get();
+    const wanted = new Set(visibleChunks.map(({ cx, cy }) => createChunkKey(cx, cy)));
+    const toSubscribe = [...wanted].filter((key) => !state.subscribedChunks.has(key));
+    const toUnsubscribe = [...state.subscribedChunks].filter((key) => !wanted.has(key));
+    if (toSubscribe.length === 0 && toUnsubscribe.length === 0) return;
+
+    // Chunks still cached from an earlier visit missed updates while unsubscribed
+    const staleChunks = toSubscribe.filter((key) => state.loadedChunks[key] && !state.requestedChunks.has(key));
+
+    set({
+      subscribedChunks: wanted,
+      requestedChunks: staleChunks.length > 0
+        ? new Set([...state.requestedChunks, ...staleChunks])
+        : state.requestedChunks,
+    });
+
+    // Subscribe before requesting so no update falls between snapshot and subscription
+    if (toSubscribe.length > 0) {
+      emit(CLIENT_EVENTS.SUBSCRIBE_CHUNKS, { chunks: toSubscribe.map(parseChunkKey) });
+    }
+    if (toUnsubscribe.length > 0) {
+      emit(CLIENT_EVENTS.UNSUBSCRIBE_CHUNKS, { chunks: toUnsubscribe.map(parseChunkKey) });
+    }
+    for (const key of staleChunks) {
+      emit(CLIENT_EVENTS.GET_CHUNK, parseChunkKey(key));
+    }
+  },
+
+  resubscribeAll: () => {
+    const { subscribedChunks } = get();
+    if (subscribedChunks.size === 0) return;
+    emit(CLIENT_EVENTS.SUBSCRIBE_CHUNKS, { chunks: [...subscribedChunks].map(parseChunkKey) });
+  },
+
+  resyncLoadedChunks: () => {
+    // Only subscribed chunks need it: cached off-view chunks are refetched when they return
+    const { loadedChunks, subscribedChunks } = get();
+    const versioned: Array<{ cx: number; cy: number; version: number }> = [];
+    const unversioned: Array<{ cx: number; cy: number }> = [];
+    
+    for (const key of subscribedChunks) {
+      const chunk = loadedChunks[key];
+      if (!chunk) continue;
+      const { cx, cy } = parseChunkKey(key);
+      if (chunk.serverVersion !== null) {
+        versioned.push({ cx, cy, version: chunk.serverVersion });
+      } else {
+        unversioned.push({ cx, cy });
+      }
+    }
+    
+    if (versioned.length > 0) {
+      emit(CLIENT_EVENTS.SYNC_CHUNKS, { chunks: versioned });
+    }
+    if (unversioned.length > 0) {
+      set((state) => ({
+        requestedChunks: new Set([...state.requestedChunks, ...unversioned.map(({ cx, cy }) => createChunkKey(cx, cy))])
+      }));
+      unversioned.forEach((coords) => emit(CLIENT_EVENTS.GET_CHUNK, coords));
+    }
+  },
+
+  clearRequestedChunks: () => {
+    set({ requestedChunks: new Set() });
+  },
 }));
 
+/** A loaded chunk as displayed, for renderers without access to getCell */
+export interface DisplayedChunk {
+  chunk: Chunk; // Cells with pending flag toggles applied
+  pending: number[]; // Indices (row by row) of cells awaiting a reveal
+}
+
+/**
+ * Snapshot a loaded chunk with its pending optimistic actions applied
+ * @param key - Chunk key
+ * @returns Displayed chunk, or null if the chunk is not loaded
+ */
+export function getDisplayedChunk(key: string): DisplayedChunk | null {
+  const state = useChunkedGridStore.getState();
+  const chunk = state.loadedChunks[key];
+  if (!chunk) return null;
+  const pendingInChunk = state.pendingCells[key];
+  if (!pendingInChunk) return { chunk, pending: [] };
+
+  // Copy, since the stored cells are what the server last confirmed
+  const cells = chunk.cells.slice();
+  const pending: number[] = [];
+  for (const [localKey, requestId] of Object.entries(pendingInChunk)) {
+    const [x, y] = localKey.split(",").map(Number);
+    const index = y * chunk.width + x;
+    const cell = applyPendingAction(unpackCell(cells[index], x, y), state.pendingActions[requestId]);
+    cells[index] = packCell(cell);
+    if (cell.pending) pending.push(index);
+  }
+  return { chunk: { ...chunk, cells }, pending };
+}
+
 // Socket event handlers
-socket.on("chunk_data", ({ cx, cy, chunk }) => {
+on(SERVER_EVENTS.CHUNK_DATA, (payload) => {
+  const { cx, cy } = payload;
+  const chunk = isPackedChunkPayload(payload) 
+    ? decodePackedChunk(payload) 
+    : packJsonChunk(payload.chunk, payload.version ?? null);
+  if (!chunk) {
+    console.error(`[protocol] ${ERROR_MESSAGES.CHUNK_DECODE_FAILED}: (${cx}, ${cy})`);
+    useChunkedGridStore.getState().clearRequestedChunk(cx, cy);
+    return;
+  }
   if (cx === 0 && cy === 0) {
     console.log('🔢 Received chunk: ', chunk);
   }
   useChunkedGridStore.getState().setChunk(cx, cy, chunk);
+}, (payload) => {
+  // Let a malformed chunk be requested again instead of staying pending forever
+  const { cx, cy } = (payload ?? {}) as { cx?: unknown; cy?: unknown };
+  if (typeof cx === "number" && typeof cy === "number") {
+    useChunkedGridStore.getState().clearRequestedChunk(cx, cy);
+  }
+});
+
+on(SERVER_EVENTS.CELL_UPDATE, (update) => {
+  useChunkedGridStore.getState().updateCells([update]);
+});
+
+on(SERVER_EVENTS.CELLS_UPDATE, ({ updates }) => {
+  useChunkedGridStore.getState().updateCells(updates);
 });
 
-socket.on("cell_update", ({ cx, cy, x, y, cell }) => {
-  useChunkedGridStore.getState().updateCell(cx, cy, x, y, cell);
+on(SERVER_EVENTS.ACTION_RESULT, ({ requestId, ok, error }) => {
+  useChunkedGridStore.getState().resolveCellAction(requestId, ok, ok ? undefined : error ?? ERROR_MESSAGES.ACTION_REJECTED);
 });
 
-// Error handling - clear requested chunks on connection errors
-socket.on("connect_error", () => {
+// The server forgets subscriptions with the connection, so restore them on (re)connect
+// and catch up on anything that changed while we were away
+on(SERVER_EVENTS.CONNECT, () => {
   const store = useChunkedGridStore.getState();
-  // Clear all requested chunks on connection error
-  store.requestedChunks.forEach((key) => {
-    const [cx, cy] = key.split(',').map(Number);
-    store.clearRequestedChunk(cx, cy);
-  });
-}); 
\ No newline at end of file
+  store.resubscribeAll();
+  store.resyncLoadedChunks();
+});
+
+// In-flight chunk requests are lost with the connection; let them be requested again
+on(SERVER_EVENTS.DISCONNECT, () => {
+  useChunkedGridStore.getState().clearRequestedChunks();
+});
+
+on(SERVER_EVENTS.CONNECT_ERROR, () => {
+  useChunkedGridStore.getState().clearRequestedChunks();
+});
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+interface ConnectionState {
+  status: ConnectionStatus;
+  hasConnected: boolean; // True once the first connection succeeded
+  reconnectAttempt: number;
+  lastDisconnectReason: string | null;
+  // Actions
+  setConnected: () => void;
+  setDisconnected: (reason: string) => void;
+  setReconnecting: (attempt: number) => void;
+  setFailed: () => void;
+  setConnecting: () => void;
+}
+
+export const useConnectionStore = create<ConnectionState>()((set) => ({
+  status: 'connecting',
+  hasConnected: false,
+  reconnectAttempt: 0,
+  lastDisconnectReason: null,
+
+  setConnected: () => {
+    set({ status: 'connected', hasConnected: true, reconnectAttempt: 0, lastDisconnectReason: null });
+  },
+
+  setDisconnected: (reason: string) => {
+    set({ status: 'reconnecting', lastDisconnectReason: reason });
+  },
+
+  setReconnecting: (attempt: number) => {
+    set({ status: 'reconnecting', reconnectAttempt: attempt });
+  },
+
+  setFailed: () => {
+    set({ status: 'failed' });
+  },
+
+  setConnecting: () => {
+    set({ status: 'connecting', reconnectAttempt: 0 });
+  },
+}));
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import { emit, on, isConnected } from '../network/socket';
+import {
+  CLIENT_EVENTS,
+  SERVER_EVENTS,
+  SOCKET_CONFIG,
+  throttle,
+  type CursorUpdatePayload,
+} from '../constants/socket';
+import { REMOTE_CURSOR, getPlayerColor } from '../constants/ui';
+
+/** Another player's cursor, in world cell coordinates */
+export interface RemoteCursor {
+  userId: string;
+  username: string;
+  x: number;
+  y: number;
+  color: string;
+  updatedAt: number; // Local timestamp of the last movement
+}
+
+interface CursorState {
+  cursors: Record<string, RemoteCursor>; // Keyed by user ID
+  // Actions
+  updateCursor: (payload: CursorUpdatePayload) => void;
+  removeCursor: (userId: string) => void;
+  pruneCursors: (now: number) => void; // Drop cursors that have fully faded out
+  clearCursors: () => void;
+}
+
+/**
+ * Get how visible a cursor is, fading out after it stops moving
+ * @param cursor - Remote cursor
+ * @param now - Current timestamp
+ * @returns Opacity from 0 to 1
+ */
+export function getCursorOpacity(cursor: RemoteCursor, now: number): number {
+  const idle = now - cursor.updatedAt - REMOTE_CURSOR.IDLE_FADE_DELAY;
+  if (idle <= 0) return 1;
+  return Math.max(0, 1 - idle / REMOTE_CURSOR.FADE_DURATION);
+}
+
+export const useCursorStore = create<CursorState>()((set, get) => ({
+  cursors: {},
+
+  updateCursor: ({ userId, username, x, y }) => {
+    set((state) => ({
+      cursors: {
+        ...state.cursors,
+        [userId]: {
+          userId,
+          username,
+          x,
+          y,
+          color: state.cursors[userId]?.color ?? getPlayerColor(userId),
+          updatedAt: Date.now(),
+        },
+      },
+    }));
+  },
+
+  removeCursor: (userId) => {
+    if (!get().cursors[userId]) return;
+    set((state) => {
+      const cursors = { ...state.cursors };
+      delete cursors[userId];
+      return { cursors };
+    });
+  },
+
+  pruneCursors: (now) => {
+    const { cursors } = get();
+    const faded = Object.values(cursors).filter((cursor) => getCursorOpacity(cursor, now) === 0);
+    if (faded.length === 0) return;
+
+    const remaining = { ...cursors };
+    faded.forEach((cursor) => delete remaining[cursor.userId]);
+    set({ cursors: remaining });
+  },
+
+  clearCursors: () => {
+    set({ cursors: {} });
+  },
+}));
+
+/**
+ * Share our cursor position with other players, at most once per
+ * CURSOR_UPDATE_THROTTLE
+ * @param x - World cell X coordinate (fractional)
+ * @param y - World cell Y coordinate (fractional)
+ */
+export const sendCursorPosition = throttle((x: number, y: number) => {
+  // Positions are only useful live; don't let socket.io buffer them while offline
+  if (!isConnected()) return;
+  emit(CLIENT_EVENTS.CURSOR_UPDATE, { x, y });
+}, SOCKET_CONFIG.CURSOR_UPDATE_THROTTLE);
+
+// Socket event handlers
+on(SERVER_EVENTS.CURSOR_UPDATE, (payload) => {
+  useCursorStore.getState().updateCursor(payload);
+});
+
+on(SERVER_EVENTS.PLAYER_LEFT, ({ userId }) => {
+  useCursorStore.getState().removeCursor(userId);
+});
+
+// Cursors are not replayed on reconnect; players show up again as they move
+on(SERVER_EVENTS.DISCONNECT, () => {
+  useCursorStore.getState().clearCursors();
+});
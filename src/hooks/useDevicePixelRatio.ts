@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Read the device pixel ratio
+ * @returns Device pixels per CSS pixel
+ */
+function getDevicePixelRatio(): number {
+  return window.devicePixelRatio || 1;
+}
+
+/**
+ * Track the device pixel ratio, which changes when the window moves to a
+ * screen with a different density or the page is zoomed
+ * @returns Device pixels per CSS pixel
+ */
+export function useDevicePixelRatio(): number {
+  const [pixelRatio, setPixelRatio] = useState(getDevicePixelRatio);
+
+  useEffect(() => {
+    // A resolution query only matches one ratio, so it is replaced after every change
+    const query = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    const handleChange = () => setPixelRatio(getDevicePixelRatio());
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, [pixelRatio]);
+
+  return pixelRatio;
+}
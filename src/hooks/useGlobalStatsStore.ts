@@ -0,0 +1,148 @@
+import { create } from 'zustand';
+import { on } from '../network/socket';
+import { useConnectionStore } from './useConnectionStore';
+import { STATS_POLL_INTERVAL } from '../constants/game';
+import {
+  createApiUrl,
+  API_ENDPOINTS,
+  SERVER_EVENTS,
+  SOCKET_CONFIG,
+  type StatsUpdatePayload,
+} from '../constants/socket';
+
+/** Game-wide statistics shared by every player */
+export interface GlobalStats {
+  chunkCount: number;
+  revealed: number;
+  revealedPercent: number;
+  flagged: number;
+  correctFlags: number;
+  totalMines: number;
+  activeUsers: number;
+  uniqueUsersEver: number;
+  bombsExploded: number;
+}
+
+export type GlobalStatsSource = 'socket' | 'http';
+
+interface GlobalStatsState {
+  stats: GlobalStats;
+  source: GlobalStatsSource | null; // Null until the first stats arrive
+  lastUpdated: number | null;
+  receivedSinceConnect: boolean; // True once the server pushed stats on this connection
+  // Actions
+  applyStatsUpdate: (payload: StatsUpdatePayload) => void;
+  fetchStats: () => Promise<boolean>;
+  resetReceived: () => void;
+}
+
+const defaultStats: GlobalStats = {
+  chunkCount: 0,
+  revealed: 0,
+  revealedPercent: 0,
+  flagged: 0,
+  correctFlags: 0,
+  totalMines: 0,
+  activeUsers: 0,
+  uniqueUsersEver: 0,
+  bombsExploded: 0,
+};
+
+export const useGlobalStatsStore = create<GlobalStatsState>()((set, get) => ({
+  stats: defaultStats,
+  source: null,
+  lastUpdated: null,
+  receivedSinceConnect: false,
+
+  applyStatsUpdate: ({ stats, full }) => {
+    // Deltas only carry the fields that changed since the previous push
+    set((state) => ({
+      stats: full ? { ...defaultStats, ...stats } : { ...state.stats, ...stats },
+      source: 'socket',
+      lastUpdated: Date.now(),
+      receivedSinceConnect: true,
+    }));
+  },
+
+  fetchStats: async () => {
+    try {
+      const [chunkRes, revealedRes, flaggedRes, usersRes] = await Promise.all([
+        fetch(createApiUrl(API_ENDPOINTS.CHUNK_COUNT)).then(r => r.json()),
+        fetch(createApiUrl(API_ENDPOINTS.REVEALED_STATS)).then(r => r.json()),
+        fetch(createApiUrl(API_ENDPOINTS.FLAGGED_STATS)).then(r => r.json()),
+        fetch(createApiUrl(API_ENDPOINTS.ACTIVE_USERS)).then(r => r.json()),
+      ]);
+
+      // Pushed stats are newer than a poll that was in flight when they arrived
+      if (get().receivedSinceConnect) return true;
+      set({
+        stats: {
+          chunkCount: chunkRes.count,
+          revealed: revealedRes.revealed,
+          revealedPercent: revealedRes.percent,
+          flagged: flaggedRes.flagged,
+          correctFlags: flaggedRes.correctFlags,
+          totalMines: flaggedRes.totalMines,
+          activeUsers: usersRes.count,
+          uniqueUsersEver: usersRes.uniqueUsersEver,
+          bombsExploded: revealedRes.bombsExploded ?? 0,
+        },
+        source: 'http',
+        lastUpdated: Date.now(),
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+
+  resetReceived: () => {
+    set({ receivedSinceConnect: false });
+  },
+}));
+
+// Socket event handlers
+on(SERVER_EVENTS.STATS_UPDATE, (payload) => {
+  useGlobalStatsStore.getState().applyStatsUpdate(payload);
+});
+
+// Each connection starts with a full snapshot, so forget the previous one
+on(SERVER_EVENTS.DISCONNECT, () => {
+  useGlobalStatsStore.getState().resetReceived();
+});
+
+// HTTP fallback: poll while the socket is down, or while a connected server
+// has not pushed any stats (servers without stats_update)
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let failedPolls = 0;
+
+async function pollStats() {
+  // Without a socket the API is likely down too; reconnecting resets this
+  const connected = useConnectionStore.getState().status === 'connected';
+  if (!connected && failedPolls >= SOCKET_CONFIG.MAX_RETRY_ATTEMPTS) return;
+  const ok = await useGlobalStatsStore.getState().fetchStats();
+  failedPolls = ok ? 0 : failedPolls + 1;
+}
+
+function updatePolling() {
+  const connected = useConnectionStore.getState().status === 'connected';
+  const shouldPoll = !connected || !useGlobalStatsStore.getState().receivedSinceConnect;
+
+  if (shouldPoll && !pollTimer) {
+    pollStats();
+    pollTimer = setInterval(pollStats, STATS_POLL_INTERVAL);
+  } else if (!shouldPoll && pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+useConnectionStore.subscribe((state, previous) => {
+  if (state.status === previous.status) return;
+  if (state.status === 'connected') failedPolls = 0;
+  updatePolling();
+});
+useGlobalStatsStore.subscribe((state, previous) => {
+  if (state.receivedSinceConnect !== previous.receivedSinceConnect) updatePolling();
+});
+updatePolling();
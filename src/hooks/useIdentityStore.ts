@@ -0,0 +1,73 @@
+import { create } from 'zustand';
+import {
+  type PlayerIdentity,
+  getOrCreateIdentity,
+  createIdentity,
+  rotateIdentityToken,
+  saveIdentity,
+} from '../network/identity';
+import type { UserConnectPayload } from '../constants/socket';
+
+interface IdentityState {
+  identity: PlayerIdentity;
+  pendingUsername: string | null; // Requested name awaiting the server's answer
+  usernameError: string | null;
+  // Actions
+  setUsername: (username: string) => void;
+  setUsernameRequest: (pendingUsername: string | null, usernameError?: string | null) => void;
+  rotateToken: () => void;
+  resetIdentity: () => void;
+  markAnnounced: () => void;
+  getConnectPayload: () => Omit<UserConnectPayload, 'chunkEncodings'>;
+}
+
+
+export const useIdentityStore = create<IdentityState>()((set, get) => ({
+  identity: getOrCreateIdentity(),
+  pendingUsername: null,
+  usernameError: null,
+
+  setUsername: (username) => {
+    const identity = { ...get().identity, username };
+    saveIdentity(identity);
+    set({ identity });
+  },
+
+  setUsernameRequest: (pendingUsername, usernameError = null) => {
+    set({ pendingUsername, usernameError });
+  },
+
+  rotateToken: () => {
+    const identity = rotateIdentityToken(get().identity);
+    saveIdentity(identity);
+    set({ identity });
+  },
+
+  resetIdentity: () => {
+    const identity = createIdentity();
+    saveIdentity(identity);
+    set({ identity, pendingUsername: null, usernameError: null });
+  },
+
+  markAnnounced: () => {
+    const { identity } = get();
+    if (identity.announced && !identity.previousToken) return;
+
+    const announced = { ...identity, previousToken: null, announced: true };
+    saveIdentity(announced);
+    set({ identity: announced });
+  },
+
+  getConnectPayload: () => {
+    const { identity } = get();
+    return {
+      token: identity.token,
+      username: identity.username,
+      firstTime: !identity.announced,
+      previousToken: identity.previousToken,
+      createdAt: identity.createdAt,
+      lastSeenAt: identity.previousVisitAt,
+      visitCount: identity.visitCount,
+    };
+  },
+}));
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { parseLocationLink } from '../navigation/coordinateLinks';
+
+/** A cell the viewport should be centred on */
+export interface NavigationTarget {
+  x: number;
+  y: number;
+  zoom: number | null; // Null keeps the current zoom
+  animate: boolean;
+  id: number; // Distinguishes repeated requests for the same cell
+}
+
+interface NavigationState {
+  target: NavigationTarget | null; // Consumed by GridCanvas
+  // Actions
+  navigateTo: (x: number, y: number, options?: { zoom?: number | null; animate?: boolean }) => void;
+  clearTarget: (id: number) => void;
+}
+
+let nextTargetId = 0;
+
+/**
+ * Read the initial target from the page URL (?x=&y=&zoom=)
+ * @returns Target to jump to on load, or null
+ */
+function getInitialTarget(): NavigationTarget | null {
+  const link = parseLocationLink(window.location.search);
+  return link ? { ...link, animate: false, id: ++nextTargetId } : null;
+}
+
+export const useNavigationStore = create<NavigationState>()((set, get) => ({
+  target: getInitialTarget(),
+
+  navigateTo: (x, y, options = {}) => {
+    set({
+      target: {
+        x,
+        y,
+        zoom: options.zoom ?? null,
+        animate: options.animate ?? true,
+        id: ++nextTargetId,
+      },
+    });
+  },
+
+  clearTarget: (id) => {
+    // A newer request may have replaced the one that finished
+    if (get().target?.id === id) {
+      set({ target: null });
+    }
+  },
+}));
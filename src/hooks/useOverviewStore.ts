@@ -0,0 +1,73 @@
+import { create } from 'zustand';
+import { emit, on, isConnected } from '../network/socket';
+import { useChunkedGridStore, type Chunk, type ChunkSummary } from './useChunkedGridStore';
+import { pickChunkSummary } from '../network/chunkCodec';
+import {
+  CLIENT_EVENTS,
+  SERVER_EVENTS,
+  SOCKET_CONFIG,
+  createChunkKey,
+  type OverviewDataPayload,
+} from '../constants/socket';
+
+interface OverviewState {
+  summaries: Record<string, ChunkSummary>; // Keyed by chunk key, covers the whole board
+  receivedAt: number | null;
+  // Actions
+  requestOverview: () => void;
+  applyOverview: (payload: OverviewDataPayload) => void;
+}
+
+let lastRequestedAt = 0;
+
+export const useOverviewStore = create<OverviewState>()((set) => ({
+  summaries: {},
+  receivedAt: null,
+
+  requestOverview: () => {
+    const now = Date.now();
+    // Callers may ask on every zoom change; the overview only needs refreshing now and then
+    if (!isConnected() || now - lastRequestedAt < SOCKET_CONFIG.OVERVIEW_REFRESH_INTERVAL / 2) return;
+    lastRequestedAt = now;
+    emit(CLIENT_EVENTS.GET_OVERVIEW, {});
+  },
+
+  applyOverview: ({ chunksX, chunksY, revealedPercent, flagCount, explodedCount }) => {
+    const summaries: Record<string, ChunkSummary> = {};
+    for (let cy = 0; cy < chunksY; cy++) {
+      for (let cx = 0; cx < chunksX; cx++) {
+        const index = cy * chunksX + cx;
+        summaries[createChunkKey(cx, cy)] = {
+          revealedPercent: revealedPercent[index],
+          flagCount: flagCount[index],
+          explodedCount: explodedCount[index],
+        };
+      }
+    }
+    set({ summaries, receivedAt: Date.now() });
+  },
+}));
+
+/**
+ * Get the best known summary of a chunk from the stores (see pickChunkSummary)
+ * @param key - Chunk key
+ * @param chunk - Loaded chunk, if any
+ * @returns Chunk summary, or null if nothing is known about the chunk
+ */
+export function getChunkSummary(key: string, chunk: Chunk | undefined): ChunkSummary | null {
+  return pickChunkSummary(
+    chunk,
+    useChunkedGridStore.getState().subscribedChunks.has(key),
+    useOverviewStore.getState().summaries[key]
+  );
+}
+
+// Socket event handlers
+on(SERVER_EVENTS.OVERVIEW_DATA, (payload) => {
+  useOverviewStore.getState().applyOverview(payload);
+});
+
+// Ask again promptly after a reconnect
+on(SERVER_EVENTS.DISCONNECT, () => {
+  lastRequestedAt = 0;
+});
@@ -1,10 +1,12 @@
 import { create } from 'zustand';
+import { on } from '../network/socket';
+import { SERVER_EVENTS } from '../constants/socket';
 
 export interface PlayerStats {
   cellsCleared: number;
   flagsPlaced: number;
   bombsExploded: number;
-  correctFlags: number;
+  correctFlags: number; // Flags the server scored; hidden cells carry no mine information to score them here
   incorrectFlags: number;
   totalPlayTime: number; // in seconds
   firstPlayDate: string;
@@ -16,9 +18,10 @@ export interface PlayerStats {
 interface PlayerStatsState {
   stats: PlayerStats;
   // Actions
-  incrementCellsCleared: () => void;
-  incrementFlagsPlaced: (wasCorrect: boolean) => void;
-  incrementBombsExploded: () => void;
+  incrementCellsCleared: (count?: number) => void;
+  incrementFlagsPlaced: () => void;
+  scoreFlag: (wasCorrect: boolean) => void;
+  incrementBombsExploded: (count?: number) => void;
   startSession: () => void;
   endSession: () => void;
   resetStats: () => void;
@@ -43,39 +46,48 @@ export const usePlayerStats = create<PlayerStatsState>()(
   (set, get) => ({
       stats: defaultStats,
 
-      incrementCellsCleared: () => {
+      incrementCellsCleared: (count = 1) => {
         set((state) => {
           const newStats = {
             ...state.stats,
-            cellsCleared: state.stats.cellsCleared + 1,
+            cellsCleared: state.stats.cellsCleared + count,
             lastPlayDate: new Date().toISOString(),
           };
           return { stats: newStats };
         });
       },
 
-      incrementFlagsPlaced: (wasCorrect: boolean) => {
+      incrementFlagsPlaced: () => {
         set((state) => {
           const newStats = {
             ...state.stats,
             flagsPlaced: state.stats.flagsPlaced + 1,
+            lastPlayDate: new Date().toISOString(),
+          };
+          return { stats: newStats };
+        });
+      },
+
+      scoreFlag: (wasCorrect: boolean) => {
+        set((state) => {
+          const newStats = {
+            ...state.stats,
             correctFlags: wasCorrect 
               ? state.stats.correctFlags + 1 
               : state.stats.correctFlags,
             incorrectFlags: !wasCorrect 
               ? state.stats.incorrectFlags + 1 
               : state.stats.incorrectFlags,
-            lastPlayDate: new Date().toISOString(),
           };
           return { stats: newStats };
         });
       },
 
-      incrementBombsExploded: () => {
+      incrementBombsExploded: (count = 1) => {
         set((state) => {
           const newStats = {
             ...state.stats,
-            bombsExploded: state.stats.bombsExploded + 1,
+            bombsExploded: state.stats.bombsExploded + count,
             lastPlayDate: new Date().toISOString(),
           };
           return { stats: newStats };
@@ -131,4 +143,9 @@ export const usePlayerStats = create<PlayerStatsState>()(
         };
       },
     })
-  ); 
\ No newline at end of file
+  ); 
+
+// The server scores accepted flag placements on our own actions, if it scores flags at all
+on(SERVER_EVENTS.ACTION_RESULT, ({ ok, flagCorrect }) => {
+  if (ok && flagCorrect !== undefined) usePlayerStats.getState().scoreFlag(flagCorrect);
+});
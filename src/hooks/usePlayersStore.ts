@@ -0,0 +1,164 @@
+import { create } from 'zustand';
+import { emit, on, isConnected } from '../network/socket';
+import { useNavigationStore } from './useNavigationStore';
+import {
+  CLIENT_EVENTS,
+  SERVER_EVENTS,
+  SOCKET_CONFIG,
+  throttle,
+  type PlayerListPayload,
+  type PlayerMovePayload,
+  type PlayerPresencePayload,
+} from '../constants/socket';
+import { getPlayerColor } from '../constants/ui';
+
+/** Another player currently online */
+export interface OnlinePlayer {
+  userId: string;
+  username: string;
+  color: string;
+  x: number | null; // World cell at the centre of their view, null until known
+  y: number | null;
+  zoom: number | null;
+  lastMoveAt: number | null;
+}
+
+interface PlayersState {
+  players: Record<string, OnlinePlayer>; // Keyed by user ID
+  selfId: string | null;
+  followingId: string | null; // Player whose view ours is locked to
+  // Actions
+  setPlayerList: (payload: PlayerListPayload) => void;
+  addPlayer: (payload: PlayerPresencePayload) => void;
+  removePlayer: (userId: string) => void;
+  movePlayer: (payload: PlayerMovePayload) => void;
+  follow: (userId: string | null) => void;
+  clearPlayers: () => void;
+}
+
+/**
+ * Create or update a player entry
+ * @param existing - Current entry, if any
+ * @param payload - Player fields from the server
+ * @returns Updated player
+ */
+function toOnlinePlayer(
+  existing: OnlinePlayer | undefined,
+  payload: PlayerPresencePayload & Partial<Pick<PlayerMovePayload, 'x' | 'y' | 'zoom'>>
+): OnlinePlayer {
+  const { x, y } = payload;
+  const moved = x !== undefined && y !== undefined;
+  return {
+    userId: payload.userId,
+    username: payload.username,
+    color: existing?.color ?? getPlayerColor(payload.userId),
+    x: moved ? x : existing?.x ?? null,
+    y: moved ? y : existing?.y ?? null,
+    zoom: payload.zoom ?? existing?.zoom ?? null,
+    lastMoveAt: moved ? Date.now() : existing?.lastMoveAt ?? null,
+  };
+}
+
+export const usePlayersStore = create<PlayersState>()((set, get) => ({
+  players: {},
+  selfId: null,
+  followingId: null,
+
+  setPlayerList: ({ selfId, players }) => {
+    const state = get();
+    const next: Record<string, OnlinePlayer> = {};
+    for (const player of players) {
+      if (player.userId === selfId) continue;
+      next[player.userId] = toOnlinePlayer(state.players[player.userId], player);
+    }
+    set({
+      players: next,
+      selfId: selfId ?? state.selfId,
+      followingId: state.followingId && next[state.followingId] ? state.followingId : null,
+    });
+  },
+
+  addPlayer: (payload) => {
+    if (payload.userId === get().selfId) return;
+    set((state) => ({
+      players: { ...state.players, [payload.userId]: toOnlinePlayer(state.players[payload.userId], payload) },
+    }));
+  },
+
+  removePlayer: (userId) => {
+    if (!get().players[userId]) return;
+    set((state) => {
+      const players = { ...state.players };
+      delete players[userId];
+      return {
+        players,
+        followingId: state.followingId === userId ? null : state.followingId,
+      };
+    });
+  },
+
+  movePlayer: (payload) => {
+    if (payload.userId === get().selfId) return;
+    set((state) => ({
+      players: { ...state.players, [payload.userId]: toOnlinePlayer(state.players[payload.userId], payload) },
+    }));
+  },
+
+  follow: (userId) => {
+    set({ followingId: userId && get().players[userId] ? userId : null });
+  },
+
+  clearPlayers: () => {
+    set({ players: {}, followingId: null });
+  },
+}));
+
+/**
+ * Tell other players where our view is, at most once per PLAYER_MOVE_THROTTLE
+ * @param x - World cell X at the centre of the viewport
+ * @param y - World cell Y at the centre of the viewport
+ * @param zoom - Current zoom
+ */
+export const sendViewportPosition = throttle((x: number, y: number, zoom: number) => {
+  if (!isConnected()) return;
+  emit(CLIENT_EVENTS.PLAYER_MOVE, { x, y, zoom });
+}, SOCKET_CONFIG.PLAYER_MOVE_THROTTLE);
+
+// Socket event handlers
+on(SERVER_EVENTS.PLAYER_LIST, (payload) => {
+  usePlayersStore.getState().setPlayerList(payload);
+});
+
+on(SERVER_EVENTS.PLAYER_JOINED, (payload) => {
+  usePlayersStore.getState().addPlayer(payload);
+});
+
+on(SERVER_EVENTS.PLAYER_LEFT, ({ userId }) => {
+  usePlayersStore.getState().removePlayer(userId);
+});
+
+on(SERVER_EVENTS.PLAYER_MOVE, (payload) => {
+  usePlayersStore.getState().movePlayer(payload);
+});
+
+// The server sends a fresh list when we reconnect
+on(SERVER_EVENTS.DISCONNECT, () => {
+  usePlayersStore.getState().clearPlayers();
+});
+
+// Follow mode: keep our view centred on the followed player
+usePlayersStore.subscribe((state, previous) => {
+  if (!state.followingId) return;
+  const player = state.players[state.followingId];
+  const before = previous.players[state.followingId];
+  const started = state.followingId !== previous.followingId;
+  if (!player || player.x === null || player.y === null) return;
+  if (!started && before && before.x === player.x && before.y === player.y && before.zoom === player.zoom) return;
+
+  // Glide over when following starts, then track moves directly; a pan restarted
+  // on every update would trail behind the player and jitter
+  useNavigationStore.getState().navigateTo(Math.floor(player.x), Math.floor(player.y), {
+    zoom: player.zoom,
+    animate: started,
+  });
+});
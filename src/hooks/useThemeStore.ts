@@ -0,0 +1,104 @@
+import { create } from 'zustand';
+import { THEMES, THEME_CONFIG, type ThemeId } from '../constants/ui';
+import { setPalette } from '../canvas/palette';
+
+/** A theme, or 'system' to follow the browser's color scheme */
+export type ThemePreference = ThemeId | 'system';
+
+interface ThemeState {
+  preference: ThemePreference;
+  systemTheme: ThemeId; // Theme matching the browser's prefers-color-scheme
+  themeId: ThemeId; // Theme in use, with 'system' resolved
+  // Actions
+  setPreference: (preference: ThemePreference) => void;
+  setSystemTheme: (systemTheme: ThemeId) => void;
+}
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Check that a value names a theme preference
+ * @param value - Stored value
+ * @returns True if the value is 'system' or a known theme
+ */
+function isThemePreference(value: unknown): value is ThemePreference {
+  // Own keys only: 'constructor' and the like are inherited by every object
+  return value === 'system' || (typeof value === 'string' && Object.hasOwn(THEMES, value));
+}
+
+/**
+ * Read the stored preference from localStorage
+ * @returns Stored preference, or 'system' if none is stored or storage is unavailable
+ */
+function loadPreference(): ThemePreference {
+  try {
+    const stored = localStorage.getItem(THEME_CONFIG.STORAGE_KEY);
+    return isThemePreference(stored) ? stored : 'system';
+  } catch {
+    return 'system';
+  }
+}
+
+/**
+ * Persist the preference to localStorage
+ * @param preference - Preference to store
+ */
+function savePreference(preference: ThemePreference): void {
+  try {
+    localStorage.setItem(THEME_CONFIG.STORAGE_KEY, preference);
+  } catch {
+    // Storage unavailable (private mode, quota); the theme only lasts this visit
+  }
+}
+
+/**
+ * Read the browser's color scheme
+ * @returns Dark theme if the system prefers dark, otherwise the default theme
+ */
+function getSystemTheme(): ThemeId {
+  const prefersDark = typeof window !== 'undefined' &&
+                      typeof window.matchMedia === 'function' &&
+                      window.matchMedia(DARK_SCHEME_QUERY).matches;
+  return prefersDark ? THEME_CONFIG.DARK : THEME_CONFIG.DEFAULT;
+}
+
+/**
+ * Resolve a preference to the theme in use
+ * @param preference - Chosen preference
+ * @param systemTheme - Theme matching the browser's color scheme
+ * @returns Theme id
+ */
+function resolveTheme(preference: ThemePreference, systemTheme: ThemeId): ThemeId {
+  return preference === 'system' ? systemTheme : preference;
+}
+
+const initialPreference = loadPreference();
+const initialSystemTheme = getSystemTheme();
+
+export const useThemeStore = create<ThemeState>()((set, get) => ({
+  preference: initialPreference,
+  systemTheme: initialSystemTheme,
+  themeId: resolveTheme(initialPreference, initialSystemTheme),
+
+  setPreference: (preference) => {
+    savePreference(preference);
+    set({ preference, themeId: resolveTheme(preference, get().systemTheme) });
+  },
+
+  setSystemTheme: (systemTheme) => {
+    set({ systemTheme, themeId: resolveTheme(get().preference, systemTheme) });
+  },
+}));
+
+// Keep the canvas palette on the theme in use
+setPalette(THEMES[useThemeStore.getState().themeId].PALETTE);
+useThemeStore.subscribe((state, prev) => {
+  if (state.themeId !== prev.themeId) setPalette(THEMES[state.themeId].PALETTE);
+});
+
+// Follow the browser's color scheme while it changes
+if (typeof window !== 'undefined' && typeof window.matchMedia === 'function') {
+  window.matchMedia(DARK_SCHEME_QUERY).addEventListener('change', () => {
+    useThemeStore.getState().setSystemTheme(getSystemTheme());
+  });
+}
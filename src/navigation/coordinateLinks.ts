@@ -0,0 +1,90 @@
+/**
+ * Coordinate Links
+ *
+ * Players share places on the grid as "x,y" cell coordinates (e.g. "help at
+ * 3400,2100"). This module finds those coordinates in chat text and reads and
+ * writes them as page URLs (?x=&y=&zoom=) so they can be followed.
+ */
+
+import { clampZoom } from "../constants/game";
+
+export interface CoordinateLink {
+  x: number;
+  y: number;
+  zoom: number | null; // Null keeps the viewer's current zoom
+}
+
+/** A piece of chat text, either plain or a coordinate link */
+export type TextSegment =
+  | { type: "text"; text: string }
+  | { type: "link"; text: string; link: CoordinateLink };
+
+// Two whole numbers separated by a comma, optionally in parentheses or after "@".
+// Digits or commas around the pair rule out thousands separators like "1,000,000".
+const COORDINATE_PATTERN = /(?<![\d,.])(?:[@(]\s*)?(\d{1,7})\s*,\s*(\d{1,7})(?:\s*\))?(?![\d,]|\.\d)/g;
+
+/**
+ * Split text into plain and coordinate link segments
+ * @param text - Chat message text
+ * @returns Segments in order; plain text only if no coordinates were found
+ */
+export function parseCoordinateLinks(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(COORDINATE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: "text", text: text.slice(lastIndex, index) });
+    }
+    segments.push({
+      type: "link",
+      text: match[0],
+      link: { x: Number(match[1]), y: Number(match[2]), zoom: null },
+    });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Read a coordinate link from a URL query string
+ * @param search - Query string, e.g. window.location.search
+ * @returns Link, or null if x and y are missing or invalid
+ */
+export function parseLocationLink(search: string): CoordinateLink | null {
+  const params = new URLSearchParams(search);
+  const x = Number(params.get("x"));
+  const y = Number(params.get("y"));
+  if (!params.has("x") || !params.has("y") ||
+      !Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0) {
+    return null;
+  }
+
+  const zoom = Number(params.get("zoom"));
+  return { x, y, zoom: params.has("zoom") && Number.isFinite(zoom) && zoom > 0 ? clampZoom(zoom) : null };
+}
+
+/**
+ * Build a shareable URL that opens the game centred on a cell
+ * @param x - World cell X coordinate
+ * @param y - World cell Y coordinate
+ * @param zoom - Zoom level to open at
+ * @returns Absolute URL
+ */
+export function createCoordinateUrl(x: number, y: number, zoom?: number): string {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set("x", String(x));
+  url.searchParams.set("y", String(y));
+  if (zoom !== undefined) {
+    // Far zoom levels need more than two decimals
+    url.searchParams.set("zoom", String(Number(zoom.toPrecision(3))));
+  }
+  return url.toString();
+}
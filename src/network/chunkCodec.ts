@@ -0,0 +1,197 @@
+/**
+ * Chunk Codec
+ *
+ * Converts chunk wire formats into the packed Chunk storage used by the grid
+ * store, and reads cells back out of it. Each cell is one bitfield byte (see PACKED_CELL_BITS). The compact
+ * "packed-rle" wire format run-length encodes those bytes as
+ * [runLength, cellByte] pairs, with cells ordered row by row.
+ */
+
+import { MAX_ADJACENT_CELLS } from "../constants/game";
+import { CHUNK_ENCODINGS, PACKED_CELL_BITS, type ChunkDataPayload, type PackedChunkDataPayload } from "../constants/socket";
+import type { Cell, Chunk, ChunkSummary, FoggedCell, FoggedChunk } from "../hooks/useChunkedGridStore";
+
+// Chunk wrappers are replaced whenever their cells change, so each one is summarised once
+const chunkSummaries = new WeakMap<Chunk, ChunkSummary>();
+
+/**
+ * Check whether a chunk payload uses the packed encoding
+ * @param payload - Chunk data payload
+ * @returns True if the payload must be decoded before use
+ */
+export function isPackedChunkPayload(payload: ChunkDataPayload): payload is PackedChunkDataPayload {
+  return payload.encoding === CHUNK_ENCODINGS.PACKED_RLE;
+}
+
+/**
+ * Strip mine and count bits from a hidden cell byte (fog contract)
+ * @param byte - Packed cell byte
+ * @returns Byte safe to store
+ */
+export function fogCellByte(byte: number): number {
+  return (byte & PACKED_CELL_BITS.REVEALED) !== 0 ? byte : byte & PACKED_CELL_BITS.FLAGGED;
+}
+
+/**
+ * Pack a cell into a single byte, fogging hidden cells
+ * @param cell - Cell as received from the server
+ * @returns Packed cell byte
+ */
+export function packCell(cell: FoggedCell): number {
+  if (!cell.revealed) {
+    return cell.flagged ? PACKED_CELL_BITS.FLAGGED : 0;
+  }
+  return PACKED_CELL_BITS.REVEALED |
+         (cell.hasMine ? PACKED_CELL_BITS.HAS_MINE : 0) |
+         (cell.flagged ? PACKED_CELL_BITS.FLAGGED : 0) |
+         ((cell.adjacentMines ?? 0) & PACKED_CELL_BITS.ADJACENT_MASK);
+}
+
+/**
+ * Unpack a single cell byte
+ * @param byte - Packed cell byte
+ * @param x - Local X coordinate within the chunk
+ * @param y - Local Y coordinate within the chunk
+ * @returns Cell object
+ */
+export function unpackCell(byte: number, x: number, y: number): Cell {
+  const revealed = (byte & PACKED_CELL_BITS.REVEALED) !== 0;
+  return {
+    x,
+    y,
+    revealed,
+    // Mine and count bits of hidden cells are ignored (fog contract)
+    hasMine: revealed && (byte & PACKED_CELL_BITS.HAS_MINE) !== 0,
+    adjacentMines: revealed ? byte & PACKED_CELL_BITS.ADJACENT_MASK : 0,
+    flagged: (byte & PACKED_CELL_BITS.FLAGGED) !== 0,
+  };
+}
+
+/**
+ * Check whether a cell is a revealed (exploded) mine
+ * @param cell - Cell to check
+ * @returns True only for revealed mines
+ */
+export function isRevealedMine(cell: FoggedCell): boolean {
+  return cell.revealed && cell.hasMine === true;
+}
+
+/**
+ * Get the number to display on a cell
+ * @param cell - Cell to check
+ * @returns Adjacent mine count for revealed safe cells, otherwise 0
+ */
+export function getRevealedCount(cell: FoggedCell): number {
+  return cell.revealed && !cell.hasMine ? cell.adjacentMines ?? 0 : 0;
+}
+
+/**
+ * Read a cell from a chunk
+ * @param chunk - Loaded chunk
+ * @param x - Local X coordinate within the chunk
+ * @param y - Local Y coordinate within the chunk
+ * @returns Decoded cell, or null if out of the chunk's bounds
+ */
+export function getChunkCell(chunk: Chunk, x: number, y: number): Cell | null {
+  if (x < 0 || y < 0 || x >= chunk.width || y >= chunk.height) return null;
+  return unpackCell(chunk.cells[y * chunk.width + x], x, y);
+}
+
+/**
+ * Summarise a loaded chunk, once per chunk version
+ * @param chunk - Loaded chunk
+ * @returns Revealed percentage, flag and exploded mine counts
+ */
+export function summarizeChunk(chunk: Chunk): ChunkSummary {
+  const cached = chunkSummaries.get(chunk);
+  if (cached) return cached;
+
+  const explodedBits = PACKED_CELL_BITS.REVEALED | PACKED_CELL_BITS.HAS_MINE;
+  let revealed = 0;
+  let flagCount = 0;
+  let explodedCount = 0;
+  for (const byte of chunk.cells) {
+    if (byte & PACKED_CELL_BITS.REVEALED) revealed++;
+    if (byte & PACKED_CELL_BITS.FLAGGED) flagCount++;
+    if ((byte & explodedBits) === explodedBits) explodedCount++;
+  }
+  const summary = {
+    revealedPercent: chunk.cells.length > 0 ? (revealed / chunk.cells.length) * 100 : 0,
+    flagCount,
+    explodedCount,
+  };
+  chunkSummaries.set(chunk, summary);
+  return summary;
+}
+
+/**
+ * Pick the best known summary of a chunk. Subscribed chunks are summarised
+ * locally, since the server keeps them up to date; other chunks, including
+ * loaded ones that stopped receiving updates, use the last overview, and
+ * their local cells only until an overview has arrived.
+ * @param chunk - Loaded chunk, if any
+ * @param isSubscribed - Whether the server sends updates for the chunk
+ * @param overviewSummary - The chunk's entry in the last overview, if any
+ * @returns Chunk summary, or null if nothing is known about the chunk
+ */
+export function pickChunkSummary(
+  chunk: Chunk | undefined,
+  isSubscribed: boolean,
+  overviewSummary: ChunkSummary | undefined
+): ChunkSummary | null {
+  if (chunk && isSubscribed) return summarizeChunk(chunk);
+  return overviewSummary ?? (chunk ? summarizeChunk(chunk) : null);
+}
+
+/**
+ * Expand run-length encoded bytes into one fogged byte per cell. The runs have
+ * already been checked against the chunk size when the payload was validated.
+ * @param data - Encoded [runLength, cellByte] pairs
+ * @param cellCount - Number of cells the runs add up to
+ * @returns Cell bytes, or null if a cell byte is malformed
+ */
+export function decodeRunLength(data: Uint8Array, cellCount: number): Uint8Array | null {
+  const cells = new Uint8Array(cellCount);
+  let position = 0;
+  for (let i = 0; i < data.length; i += 2) {
+    const runLength = data[i];
+    const value = data[i + 1];
+    if ((value & PACKED_CELL_BITS.ADJACENT_MASK) > MAX_ADJACENT_CELLS) return null;
+    cells.fill(fogCellByte(value), position, position + runLength);
+    position += runLength;
+  }
+  return cells;
+}
+
+/**
+ * Decode a packed chunk payload
+ * @param payload - Packed chunk data payload
+ * @returns Decoded chunk, or null if the data is malformed
+ */
+export function decodePackedChunk(payload: PackedChunkDataPayload): Chunk | null {
+  const { width, height, data } = payload;
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const cells = decodeRunLength(bytes, width * height);
+  if (!cells) return null;
+
+  return { width, height, cells, version: 0, serverVersion: payload.version ?? null };
+}
+
+/**
+ * Pack a legacy JSON chunk
+ * @param rows - Rows of cells as received from the server
+ * @param serverVersion - Server-side chunk version, if the server sent one
+ * @returns Packed chunk
+ */
+export function packJsonChunk(rows: FoggedChunk, serverVersion: number | null = null): Chunk {
+  const height = rows.length;
+  const width = rows[0].length;
+  const cells = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = rows[y];
+    for (let x = 0; x < width; x++) {
+      cells[y * width + x] = packCell(row[x]);
+    }
+  }
+  return { width, height, cells, version: 0, serverVersion };
+}
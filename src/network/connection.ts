@@ -0,0 +1,47 @@
+/**
+ * Connection Manager
+ *
+ * Tracks the socket's connection lifecycle in the connection store so the UI
+ * can show a banner while the connection is down. Reconnection itself is done
+ * by socket.io using the SOCKET_CONFIG options applied in socket.ts; chunk
+ * resynchronisation on reconnect is handled by the grid store.
+ */
+
+import { SERVER_EVENTS } from "../constants/socket";
+import { useConnectionStore } from "../hooks/useConnectionStore";
+import { socket, on } from "./socket";
+
+on(SERVER_EVENTS.CONNECT, () => {
+  useConnectionStore.getState().setConnected();
+});
+
+on(SERVER_EVENTS.DISCONNECT, (reason) => {
+  const connection = useConnectionStore.getState();
+  if (reason === "io client disconnect") {
+    // We closed the socket ourselves (e.g. identity change) and reconnect right away
+    connection.setConnecting();
+    return;
+  }
+
+  connection.setDisconnected(reason);
+  if (reason === "io server disconnect") {
+    // socket.io does not retry connections the server closed deliberately
+    socket.connect();
+  }
+});
+
+socket.io.on("reconnect_attempt", (attempt) => {
+  useConnectionStore.getState().setReconnecting(attempt);
+});
+
+socket.io.on("reconnect_failed", () => {
+  useConnectionStore.getState().setFailed();
+});
+
+/**
+ * Start a fresh connection attempt after reconnection gave up
+ */
+export function retryConnection(): void {
+  useConnectionStore.getState().setConnecting();
+  socket.connect();
+}
@@ -0,0 +1,153 @@
+/**
+ * Player Identity
+ *
+ * This module persists the player's identification token in localStorage so a
+ * returning sweeper is recognised by the server instead of counted as new.
+ * It is intentionally free of socket/React dependencies; the identity store
+ * and socket module build on top of it.
+ */
+
+import { IDENTITY_CONFIG } from "../constants/socket";
+import { generateUsername, validateUsername } from "./username";
+
+export interface PlayerIdentity {
+  token: string;
+  username: string; // Shown to other players; generated on the first visit
+  createdAt: string; // ISO timestamp of the first visit on this device
+  lastSeenAt: string; // ISO timestamp of the current visit
+  previousVisitAt: string | null; // ISO timestamp of the visit before this one
+  visitCount: number;
+  previousToken: string | null; // Set after a rotation until the server has seen it
+  announced: boolean; // True once the server has been told about this identity
+}
+
+/**
+ * Generate a new random token
+ * @returns UUID token string
+ */
+function generateToken(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  // Fallback for insecure contexts where randomUUID is unavailable
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+}
+
+/**
+ * Check that a parsed value has the shape of a stored identity
+ * @param value - Parsed localStorage value
+ * @returns True if the value is a usable identity
+ */
+function isPlayerIdentity(value: unknown): value is PlayerIdentity {
+  if (!value || typeof value !== "object") return false;
+  const identity = value as Record<string, unknown>;
+  return typeof identity.token === "string" &&
+         identity.token.length > 0 &&
+         typeof identity.createdAt === "string" &&
+         typeof identity.visitCount === "number";
+}
+
+/**
+ * Read the stored identity from localStorage
+ * @returns Stored identity, or null if none exists or storage is unavailable
+ */
+export function loadIdentity(): PlayerIdentity | null {
+  try {
+    const stored = localStorage.getItem(IDENTITY_CONFIG.STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored);
+    if (!isPlayerIdentity(parsed)) return null;
+    const storedName = (parsed as Partial<PlayerIdentity>).username;
+    return {
+      token: parsed.token,
+      // Identities saved before usernames existed get a generated one
+      username: typeof storedName === "string" && validateUsername(storedName) === null
+        ? storedName
+        : generateUsername(),
+      createdAt: parsed.createdAt,
+      lastSeenAt: parsed.lastSeenAt ?? parsed.createdAt,
+      previousVisitAt: parsed.previousVisitAt ?? null,
+      visitCount: parsed.visitCount,
+      previousToken: parsed.previousToken ?? null,
+      // Identities saved before this flag existed were announced on an earlier visit
+      announced: typeof parsed.announced === "boolean" ? parsed.announced : true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist an identity to localStorage
+ * @param identity - Identity to store
+ */
+export function saveIdentity(identity: PlayerIdentity): void {
+  try {
+    localStorage.setItem(IDENTITY_CONFIG.STORAGE_KEY, JSON.stringify(identity));
+  } catch {
+    // Storage unavailable (private mode, quota) - identity lives for this session only
+  }
+}
+
+/**
+ * Create a brand-new identity
+ * @returns Fresh identity with a new token
+ */
+export function createIdentity(): PlayerIdentity {
+  const now = new Date().toISOString();
+  return {
+    token: generateToken(),
+    username: generateUsername(),
+    createdAt: now,
+    lastSeenAt: now,
+    previousVisitAt: null,
+    visitCount: 1,
+    previousToken: null,
+    announced: false,
+  };
+}
+
+/**
+ * Load the stored identity and record a new visit, or create one on first visit
+ * @returns Identity for this visit
+ */
+export function getOrCreateIdentity(): PlayerIdentity {
+  const stored = loadIdentity();
+  if (!stored) {
+    const identity = createIdentity();
+    saveIdentity(identity);
+    return identity;
+  }
+
+  const identity: PlayerIdentity = {
+    ...stored,
+    previousVisitAt: stored.lastSeenAt,
+    lastSeenAt: new Date().toISOString(),
+    visitCount: stored.visitCount + 1,
+  };
+  saveIdentity(identity);
+  return identity;
+}
+
+/**
+ * Replace the token while keeping the identity's history
+ * @param identity - Current identity
+ * @returns Identity with a new token that remembers the old one
+ */
+export function rotateIdentityToken(identity: PlayerIdentity): PlayerIdentity {
+  return {
+    ...identity,
+    token: generateToken(),
+    // Keep the oldest unannounced token so the server can follow the whole chain
+    previousToken: identity.previousToken ?? identity.token,
+  };
+}
+
+/**
+ * Shorten a token for display
+ * @param token - Full token
+ * @returns First characters of the token
+ */
+export function getTokenPreview(token: string): string {
+  return token.slice(0, IDENTITY_CONFIG.TOKEN_PREVIEW_LENGTH);
+}
@@ -0,0 +1,84 @@
+/**
+ * Player Profile
+ *
+ * Sends username changes to the server and applies its answer. The username
+ * itself is part of the stored identity and is also announced in user_connect,
+ * so a name chosen while offline reaches the server on the next connection.
+ */
+
+import { CLIENT_EVENTS, SERVER_EVENTS, SOCKET_CONFIG, ERROR_MESSAGES } from "../constants/socket";
+import { useIdentityStore } from "../hooks/useIdentityStore";
+import { emit, on, isConnected } from "./socket";
+import { normalizeUsername, validateUsername } from "./username";
+
+let requestTimer: ReturnType<typeof setTimeout> | null = null;
+
+function clearRequestTimer() {
+  if (requestTimer) {
+    clearTimeout(requestTimer);
+    requestTimer = null;
+  }
+}
+
+/**
+ * Ask to change the player's username
+ * @param input - Name as typed by the player
+ * @returns Validation error message, or null if the request was made
+ */
+export function changeUsername(input: string): string | null {
+  const store = useIdentityStore.getState();
+  const username = normalizeUsername(input);
+  const error = validateUsername(username);
+  if (error) {
+    store.setUsernameRequest(null, error);
+    return error;
+  }
+  if (username === store.identity.username) {
+    store.setUsernameRequest(null);
+    return null;
+  }
+
+  if (!isConnected()) {
+    // Announced with the rest of the identity when we reconnect
+    store.setUsername(username);
+    store.setUsernameRequest(null);
+    return null;
+  }
+
+  clearRequestTimer();
+  store.setUsernameRequest(username);
+  emit(CLIENT_EVENTS.SET_USERNAME, { username });
+  requestTimer = setTimeout(() => {
+    // Servers without profile support never answer; keep the name locally
+    requestTimer = null;
+    const current = useIdentityStore.getState();
+    if (current.pendingUsername === username) {
+      current.setUsername(username);
+      current.setUsernameRequest(null);
+    }
+  }, SOCKET_CONFIG.ACTION_ACK_TIMEOUT);
+  return null;
+}
+
+on(SERVER_EVENTS.USERNAME_RESULT, ({ ok, username, reason, suggestion }) => {
+  const store = useIdentityStore.getState();
+  const requested = store.pendingUsername !== null;
+  clearRequestTimer();
+
+  if (ok) {
+    store.setUsername(username);
+    store.setUsernameRequest(null);
+    return;
+  }
+
+  if (!requested) {
+    // Our stored name clashed at connect: take the server's alternative
+    if (suggestion) store.setUsername(suggestion);
+    return;
+  }
+
+  const message = reason === "taken"
+    ? `${ERROR_MESSAGES.USERNAME_TAKEN}${suggestion ? ` (try "${suggestion}")` : ""}`
+    : ERROR_MESSAGES.USERNAME_INAPPROPRIATE;
+  store.setUsernameRequest(null, message);
+});
@@ -0,0 +1,313 @@
+/**
+ * Socket Protocol
+ *
+ * This module maps every client and server socket event to its payload type and
+ * validates inbound payloads at runtime. Malformed payloads are rejected with a
+ * logged protocol error instead of reaching the stores.
+ */
+
+import {
+  CLIENT_EVENTS,
+  SERVER_EVENTS,
+  CHUNK_ENCODINGS,
+  ERROR_MESSAGES,
+  isValidChunkCoords,
+  isValidCellCoords,
+  type ChunkRequestPayload,
+  type ChunkSubscriptionPayload,
+  type ChunkSyncPayload,
+  type CellActionPayload,
+  type UserConnectPayload,
+  type SetUsernamePayload,
+  type UsernameResultPayload,
+  type ChunkDataPayload,
+  type CellUpdatePayload,
+  type CellsUpdatePayload,
+  type OverviewRequestPayload,
+  type OverviewDataPayload,
+  type ActionResultPayload,
+  type StatsUpdatePayload,
+  type ChatSendPayload,
+  type ChatMessagePayload,
+  type TypingStatusPayload,
+  type PlayerMovePayload,
+  type PlayerPositionPayload,
+  type PlayerListPayload,
+  type CursorPositionPayload,
+  type CursorUpdatePayload,
+  type PlayerPresencePayload,
+  type PlayerTypingPayload,
+} from "../constants/socket";
+import { CHUNK_SIZE, MAX_ADJACENT_CELLS } from "../constants/game";
+import type { FoggedCell, FoggedChunk } from "../hooks/useChunkedGridStore";
+
+export type ClientEvent = typeof CLIENT_EVENTS[keyof typeof CLIENT_EVENTS];
+export type ServerEvent = typeof SERVER_EVENTS[keyof typeof SERVER_EVENTS];
+
+/** Payload carried by each client to server event */
+export interface ClientEventPayloads {
+  [CLIENT_EVENTS.USER_CONNECT]: UserConnectPayload;
+  [CLIENT_EVENTS.SET_USERNAME]: SetUsernamePayload;
+  [CLIENT_EVENTS.GET_CHUNK]: ChunkRequestPayload;
+  [CLIENT_EVENTS.REVEAL_CELL]: CellActionPayload;
+  [CLIENT_EVENTS.FLAG_CELL]: CellActionPayload;
+  [CLIENT_EVENTS.CHORD_CLICK]: CellActionPayload;
+  [CLIENT_EVENTS.SUBSCRIBE_CHUNKS]: ChunkSubscriptionPayload;
+  [CLIENT_EVENTS.UNSUBSCRIBE_CHUNKS]: ChunkSubscriptionPayload;
+  [CLIENT_EVENTS.SYNC_CHUNKS]: ChunkSyncPayload;
+  [CLIENT_EVENTS.GET_OVERVIEW]: OverviewRequestPayload;
+  [CLIENT_EVENTS.CHAT_MESSAGE]: ChatSendPayload;
+  [CLIENT_EVENTS.PLAYER_MOVE]: PlayerPositionPayload;
+  [CLIENT_EVENTS.PLAYER_TYPING]: TypingStatusPayload;
+  [CLIENT_EVENTS.CURSOR_UPDATE]: CursorPositionPayload; // The server adds the sender's identity
+}
+
+/** Payload carried by each server to client event */
+export interface ServerEventPayloads {
+  [SERVER_EVENTS.CONNECT]: void;
+  [SERVER_EVENTS.DISCONNECT]: string; // Disconnect reason
+  [SERVER_EVENTS.CONNECT_ERROR]: Error;
+  [SERVER_EVENTS.USERNAME_RESULT]: UsernameResultPayload;
+  [SERVER_EVENTS.CHUNK_DATA]: ChunkDataPayload;
+  [SERVER_EVENTS.CELL_UPDATE]: CellUpdatePayload;
+  [SERVER_EVENTS.CELLS_UPDATE]: CellsUpdatePayload;
+  [SERVER_EVENTS.ACTION_RESULT]: ActionResultPayload;
+  [SERVER_EVENTS.STATS_UPDATE]: StatsUpdatePayload;
+  [SERVER_EVENTS.OVERVIEW_DATA]: OverviewDataPayload;
+  [SERVER_EVENTS.CHAT_MESSAGE]: ChatMessagePayload;
+  [SERVER_EVENTS.PLAYER_LIST]: PlayerListPayload;
+  [SERVER_EVENTS.PLAYER_JOINED]: PlayerPresencePayload;
+  [SERVER_EVENTS.PLAYER_LEFT]: PlayerPresencePayload;
+  [SERVER_EVENTS.PLAYER_MOVE]: PlayerMovePayload;
+  [SERVER_EVENTS.PLAYER_TYPING]: PlayerTypingPayload;
+  [SERVER_EVENTS.CURSOR_UPDATE]: CursorUpdatePayload;
+}
+
+type PayloadValidator<T> = (payload: unknown) => payload is T;
+
+// ============================================================================
+// PRIMITIVE CHECKS
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+// ============================================================================
+// PAYLOAD VALIDATORS
+// ============================================================================
+
+function isAdjacentCount(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_ADJACENT_CELLS;
+}
+
+/**
+ * Validate a single cell. Revealed cells must carry mine and count information;
+ * hidden cells may omit it (fog contract).
+ * @param value - Value to check
+ * @returns True if the value is a well-formed cell
+ */
+export function isCell(value: unknown): value is FoggedCell {
+  if (!isRecord(value) ||
+      !Number.isInteger(value.x) ||
+      !Number.isInteger(value.y) ||
+      typeof value.revealed !== "boolean" ||
+      typeof value.flagged !== "boolean") {
+    return false;
+  }
+  if (value.revealed) {
+    return typeof value.hasMine === "boolean" && isAdjacentCount(value.adjacentMines);
+  }
+  return (value.hasMine === undefined || typeof value.hasMine === "boolean") &&
+         (value.adjacentMines === undefined || isAdjacentCount(value.adjacentMines));
+}
+
+/**
+ * Validate a chunk grid (rows of cells, all rows the same length)
+ * @param value - Value to check
+ * @returns True if the value is a well-formed chunk
+ */
+export function isChunk(value: unknown): value is FoggedChunk {
+  if (!Array.isArray(value) || value.length === 0) return false;
+  const width = Array.isArray(value[0]) ? value[0].length : 0;
+  if (width === 0) return false;
+  return value.every((row) =>
+    Array.isArray(row) && row.length === width && row.every(isCell)
+  );
+}
+
+function hasChunkCoords(value: Record<string, unknown>): boolean {
+  return isValidChunkCoords(value.cx as number, value.cy as number);
+}
+
+function hasCellCoords(value: Record<string, unknown>): boolean {
+  return hasChunkCoords(value) && isValidCellCoords(value.x as number, value.y as number);
+}
+
+function hasOptionalVersion(value: Record<string, unknown>): boolean {
+  return value.version === undefined || (Number.isInteger(value.version) && (value.version as number) >= 0);
+}
+
+function hasPlayerFields(value: Record<string, unknown>): boolean {
+  return isNonEmptyString(value.userId) && typeof value.username === "string";
+}
+
+function isChunkDimension(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= CHUNK_SIZE;
+}
+
+/**
+ * Check that run-length encoded chunk data covers exactly the chunk's cells
+ * @param data - Encoded [runLength, cellByte] pairs
+ * @param cellCount - Cells in the chunk
+ * @returns True if the runs are non-empty and add up to the cell count
+ */
+function hasRunLengths(data: ArrayBuffer | Uint8Array, cellCount: number): boolean {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length % 2 !== 0) return false;
+  let total = 0;
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (bytes[i] === 0) return false;
+    total += bytes[i];
+  }
+  return total === cellCount;
+}
+
+function isPackedChunkData(value: Record<string, unknown>): boolean {
+  return value.encoding === CHUNK_ENCODINGS.PACKED_RLE &&
+         isChunkDimension(value.width) &&
+         isChunkDimension(value.height) &&
+         (value.data instanceof ArrayBuffer || value.data instanceof Uint8Array) &&
+         hasRunLengths(value.data, (value.width as number) * (value.height as number));
+}
+
+function isJsonChunkData(value: Record<string, unknown>): boolean {
+  return (value.encoding === undefined || value.encoding === CHUNK_ENCODINGS.JSON) && isChunk(value.chunk);
+}
+
+const isChunkDataPayload: PayloadValidator<ChunkDataPayload> = (payload): payload is ChunkDataPayload =>
+  isRecord(payload) &&
+  hasChunkCoords(payload) &&
+  hasOptionalVersion(payload) &&
+  (isPackedChunkData(payload) || isJsonChunkData(payload));
+
+const isCellUpdatePayload: PayloadValidator<CellUpdatePayload> = (payload): payload is CellUpdatePayload =>
+  isRecord(payload) && hasCellCoords(payload) && hasOptionalVersion(payload) && isCell(payload.cell);
+
+const isCellsUpdatePayload: PayloadValidator<CellsUpdatePayload> = (payload): payload is CellsUpdatePayload =>
+  isRecord(payload) && Array.isArray(payload.updates) && payload.updates.every(isCellUpdatePayload);
+
+const isActionResultPayload: PayloadValidator<ActionResultPayload> = (payload): payload is ActionResultPayload =>
+  isRecord(payload) &&
+  isNonEmptyString(payload.requestId) &&
+  typeof payload.ok === "boolean" &&
+  (payload.error === undefined || typeof payload.error === "string") &&
+  (payload.flagCorrect === undefined || typeof payload.flagCorrect === "boolean");
+
+const isStatsUpdatePayload: PayloadValidator<StatsUpdatePayload> = (payload): payload is StatsUpdatePayload =>
+  isRecord(payload) &&
+  (payload.full === undefined || typeof payload.full === "boolean") &&
+  isRecord(payload.stats) &&
+  Object.values(payload.stats).every((value) => isFiniteNumber(value) && value >= 0);
+
+function isCountList(value: unknown, length: number, max = Infinity): boolean {
+  return Array.isArray(value) &&
+         value.length === length &&
+         value.every((count) => isFiniteNumber(count) && count >= 0 && count <= max);
+}
+
+const isOverviewDataPayload: PayloadValidator<OverviewDataPayload> = (payload): payload is OverviewDataPayload => {
+  if (!isRecord(payload) ||
+      !Number.isInteger(payload.chunksX) || (payload.chunksX as number) <= 0 ||
+      !Number.isInteger(payload.chunksY) || (payload.chunksY as number) <= 0) {
+    return false;
+  }
+  const chunkCount = (payload.chunksX as number) * (payload.chunksY as number);
+  return isCountList(payload.revealedPercent, chunkCount, 100) &&
+         isCountList(payload.flagCount, chunkCount) &&
+         isCountList(payload.explodedCount, chunkCount);
+};
+
+const isUsernameResultPayload: PayloadValidator<UsernameResultPayload> = (payload): payload is UsernameResultPayload =>
+  isRecord(payload) &&
+  typeof payload.ok === "boolean" &&
+  typeof payload.username === "string" &&
+  (payload.reason === undefined || payload.reason === "taken" || payload.reason === "invalid") &&
+  (payload.suggestion === undefined || isNonEmptyString(payload.suggestion));
+
+const isChatMessagePayload: PayloadValidator<ChatMessagePayload> = (payload): payload is ChatMessagePayload =>
+  isRecord(payload) &&
+  typeof payload.message === "string" &&
+  isFiniteNumber(payload.timestamp) &&
+  hasPlayerFields(payload);
+
+const isPlayerPresencePayload: PayloadValidator<PlayerPresencePayload> = (payload): payload is PlayerPresencePayload =>
+  isRecord(payload) && hasPlayerFields(payload);
+
+const isPositionPayload: PayloadValidator<PlayerMovePayload> = (payload): payload is PlayerMovePayload =>
+  isRecord(payload) &&
+  hasPlayerFields(payload) &&
+  isFiniteNumber(payload.x) &&
+  isFiniteNumber(payload.y) &&
+  (payload.zoom === undefined || (isFiniteNumber(payload.zoom) && payload.zoom > 0));
+
+const isPlayerListPayload: PayloadValidator<PlayerListPayload> = (payload): payload is PlayerListPayload =>
+  isRecord(payload) &&
+  (payload.selfId === undefined || isNonEmptyString(payload.selfId)) &&
+  Array.isArray(payload.players) &&
+  payload.players.every((player) =>
+    isRecord(player) &&
+    hasPlayerFields(player) &&
+    (player.x === undefined || isFiniteNumber(player.x)) &&
+    (player.y === undefined || isFiniteNumber(player.y)) &&
+    (player.zoom === undefined || isFiniteNumber(player.zoom))
+  );
+
+const isPlayerTypingPayload: PayloadValidator<PlayerTypingPayload> = (payload): payload is PlayerTypingPayload =>
+  isRecord(payload) && hasPlayerFields(payload) && typeof payload.isTyping === "boolean";
+
+/**
+ * Runtime validators for inbound events. Socket.io's reserved connection
+ * events are produced locally and are not validated.
+ */
+const serverPayloadValidators: { [E in ServerEvent]?: PayloadValidator<ServerEventPayloads[E]> } = {
+  [SERVER_EVENTS.USERNAME_RESULT]: isUsernameResultPayload,
+  [SERVER_EVENTS.CHUNK_DATA]: isChunkDataPayload,
+  [SERVER_EVENTS.CELL_UPDATE]: isCellUpdatePayload,
+  [SERVER_EVENTS.CELLS_UPDATE]: isCellsUpdatePayload,
+  [SERVER_EVENTS.ACTION_RESULT]: isActionResultPayload,
+  [SERVER_EVENTS.STATS_UPDATE]: isStatsUpdatePayload,
+  [SERVER_EVENTS.OVERVIEW_DATA]: isOverviewDataPayload,
+  [SERVER_EVENTS.CHAT_MESSAGE]: isChatMessagePayload,
+  [SERVER_EVENTS.PLAYER_LIST]: isPlayerListPayload,
+  [SERVER_EVENTS.PLAYER_JOINED]: isPlayerPresencePayload,
+  [SERVER_EVENTS.PLAYER_LEFT]: isPlayerPresencePayload,
+  [SERVER_EVENTS.PLAYER_MOVE]: isPositionPayload,
+  [SERVER_EVENTS.PLAYER_TYPING]: isPlayerTypingPayload,
+  [SERVER_EVENTS.CURSOR_UPDATE]: isPositionPayload,
+};
+
+/**
+ * Validate an inbound payload, logging a protocol error if it is malformed
+ * @param event - Server event name
+ * @param payload - Raw payload received from the socket
+ * @returns True if the payload matches the event's contract
+ */
+export function validateServerPayload<E extends ServerEvent>(
+  event: E,
+  payload: unknown
+): payload is ServerEventPayloads[E] {
+  const validator = serverPayloadValidators[event] as PayloadValidator<ServerEventPayloads[E]> | undefined;
+  if (!validator || validator(payload)) return true;
+
+  console.error(`[protocol] ${ERROR_MESSAGES.INVALID_PAYLOAD}: "${event}"`, payload);
+  return false;
+}
@@ -1,26 +1,114 @@
 import { io } from "socket.io-client";
-import { getSocketUrl, CLIENT_EVENTS } from "../constants/socket";
+import { getSocketUrl, CLIENT_EVENTS, SERVER_EVENTS, CHUNK_ENCODINGS, SOCKET_CONFIG } from "../constants/socket";
+import { useIdentityStore } from "../hooks/useIdentityStore";
+import {
+  validateServerPayload,
+  type ClientEvent,
+  type ClientEventPayloads,
+  type ServerEvent,
+  type ServerEventPayloads,
+} from "./protocol";
+
+// Use environment-aware socket connection
+export const socket = io(getSocketUrl(), {
+  timeout: SOCKET_CONFIG.CONNECTION_TIMEOUT,
+  reconnectionAttempts: SOCKET_CONFIG.RECONNECTION_ATTEMPTS,
+  reconnectionDelay: SOCKET_CONFIG.RECONNECTION_DELAY,
+});
 
 /**
- * Get or create a user token for identification
- * @returns Object containing token and firstTime flag
+ * Send a typed event to the server
+ * @param event - Client event name
+ * @param payload - Payload matching the event's contract
  */
-function getOrCreateToken() {
-  const token = crypto.randomUUID();
-  const firstTime = true;
-  return { token, firstTime };
+export function emit<E extends ClientEvent>(event: E, payload: ClientEventPayloads[E]): void {
+  socket.emit(event, payload);
 }
 
-export const userTokenInfo = getOrCreateToken();
+/**
+ * Send a typed event and wait for the server's acknowledgement
+ * @param event - Client event name
+ * @param payload - Payload matching the event's contract
+ * @param timeout - Milliseconds to wait for the acknowledgement
+ * @param callback - Called with an error if the acknowledgement timed out, otherwise with null
+ */
+export function emitWithAck<E extends ClientEvent>(
+  event: E,
+  payload: ClientEventPayloads[E],
+  timeout: number,
+  callback: (error: Error | null) => void
+): void {
+  socket.timeout(timeout).emit(event, payload, (error: Error | null) => callback(error));
+}
 
-// Use environment-aware socket connection
-export const socket = io(getSocketUrl());
+/**
+ * Subscribe to a typed server event. Malformed payloads are dropped after
+ * being logged as protocol errors.
+ * @param event - Server event name
+ * @param handler - Handler receiving the validated payload
+ * @param onInvalid - Optional handler for payloads that failed validation
+ * @returns Function that removes the subscription
+ */
+export function on<E extends ServerEvent>(
+  event: E,
+  handler: (payload: ServerEventPayloads[E]) => void,
+  onInvalid?: (payload: unknown) => void
+): () => void {
+  const listener = (payload: unknown) => {
+    if (validateServerPayload(event, payload)) {
+      handler(payload);
+    } else {
+      onInvalid?.(payload);
+    }
+  };
+  socket.on(event as string, listener);
+  return () => {
+    socket.off(event as string, listener);
+  };
+}
 
-socket.on("connect", () => {
-  socket.emit(CLIENT_EVENTS.USER_CONNECT, userTokenInfo);
-});
+/**
+ * Check whether the socket is currently connected
+ * @returns True if connected
+ */
+export function isConnected(): boolean {
+  return socket.connected;
+}
+
+/**
+ * Announce the current identity to the server, advertising the chunk encodings
+ * this client can decode. Older servers ignore the list and keep sending JSON.
+ * The identity counts as announced once the server acknowledges it, or, for
+ * servers that never acknowledge, once the connection outlived the wait; an
+ * announcement lost to a dropped connection is repeated on the next connect.
+ */
+function announceIdentity() {
+  const identity = useIdentityStore.getState();
+  const connectionId = socket.id;
+  const token = identity.identity.token;
+  emitWithAck(
+    CLIENT_EVENTS.USER_CONNECT,
+    {
+      ...identity.getConnectPayload(),
+      chunkEncodings: [CHUNK_ENCODINGS.PACKED_RLE, CHUNK_ENCODINGS.JSON],
+    },
+    SOCKET_CONFIG.IDENTITY_ACK_TIMEOUT,
+    () => {
+      // The announcement may have been lost if the connection or token changed since
+      if (!socket.connected || socket.id !== connectionId) return;
+      if (useIdentityStore.getState().identity.token !== token) return;
+      useIdentityStore.getState().markAnnounced();
+    }
+  );
+}
 
-// Placeholder for future event handlers
-// socket.on("reveal", ({ x, y }) => {
-//   // Update state
-// });
+on(SERVER_EVENTS.CONNECT, announceIdentity);
+
+// Reconnect when the token changes so the server starts a clean session for it
+useIdentityStore.subscribe((state, prevState) => {
+  if (state.identity.token === prevState.identity.token) return;
+  if (socket.connected) {
+    socket.disconnect();
+    socket.connect();
+  }
+});
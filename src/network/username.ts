@@ -0,0 +1,84 @@
+/**
+ * Usernames
+ *
+ * Generates friendly default names for new sweepers and validates names the
+ * player picks. Validation here is a courtesy check; the server has the final
+ * word and also enforces uniqueness.
+ */
+
+import { ERROR_MESSAGES, USERNAME_CONFIG } from "../constants/socket";
+
+const NAME_ADJECTIVES = [
+  "Brave", "Careful", "Clever", "Daring", "Lucky", "Nimble", "Quiet", "Rapid",
+  "Steady", "Swift", "Tidy", "Wary", "Bold", "Calm", "Keen", "Sly",
+];
+
+const NAME_NOUNS = [
+  "Sweeper", "Digger", "Scout", "Flagger", "Miner", "Seeker", "Ranger", "Prober",
+  "Spotter", "Tracker", "Clicker", "Finder",
+];
+
+// Matched against a lowercased, de-leeted copy of the name with separators removed
+const BLOCKED_WORDS = [
+  "fuck", "shit", "cunt", "bitch", "nigger", "nigga", "faggot", "whore",
+  "slut", "asshole", "bastard", "rape", "nazi", "hitler", "retard", "pussy",
+];
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", "$": "s",
+};
+
+/**
+ * Pick a random element
+ * @param items - Items to choose from
+ * @returns One of the items
+ */
+function pickRandom<T>(items: readonly T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+/**
+ * Generate a friendly random username, e.g. "SwiftSweeper42"
+ * @returns Username that passes validateUsername
+ */
+export function generateUsername(): string {
+  const number = Math.floor(Math.random() * 100);
+  return `${pickRandom(NAME_ADJECTIVES)}${pickRandom(NAME_NOUNS)}${number}`;
+}
+
+/**
+ * Tidy up whitespace in a username
+ * @param username - Name as typed
+ * @returns Trimmed name with runs of spaces collapsed
+ */
+export function normalizeUsername(username: string): string {
+  return username.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Check a username for words we don't want on screen
+ * @param username - Normalised username
+ * @returns True if the name contains a blocked word
+ */
+function containsBlockedWord(username: string): boolean {
+  const flattened = username
+    .toLowerCase()
+    .split("")
+    .map((char) => LEET_SUBSTITUTIONS[char] ?? char)
+    .join("")
+    .replace(/[^a-z]/g, "");
+  return BLOCKED_WORDS.some((word) => flattened.includes(word));
+}
+
+/**
+ * Validate a username
+ * @param username - Normalised username
+ * @returns Error message, or null if the name is acceptable
+ */
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_CONFIG.MIN_LENGTH) return ERROR_MESSAGES.USERNAME_TOO_SHORT;
+  if (username.length > USERNAME_CONFIG.MAX_LENGTH) return ERROR_MESSAGES.USERNAME_TOO_LONG;
+  if (!USERNAME_CONFIG.ALLOWED_PATTERN.test(username)) return ERROR_MESSAGES.USERNAME_INVALID_CHARACTERS;
+  if (containsBlockedWord(username)) return ERROR_MESSAGES.USERNAME_INAPPROPRIATE;
+  return null;
+}